@@ -1,6 +1,10 @@
 import { Route, Switch } from 'wouter';
 import { MainMenu } from './pages/MainMenu';
 import { GamePage } from './pages/GamePage';
+import { ControlsPage } from './pages/ControlsPage';
+import { ReplayPage } from './pages/ReplayPage';
+import { AchievementsPage } from './pages/AchievementsPage';
+import { SettingsPage } from './pages/SettingsPage';
 import { Toaster } from 'sonner';
 
 function App() {
@@ -9,6 +13,10 @@ function App() {
       <Switch>
         <Route path="/" component={MainMenu} />
         <Route path="/game" component={GamePage} />
+        <Route path="/controls" component={ControlsPage} />
+        <Route path="/replay" component={ReplayPage} />
+        <Route path="/achievements" component={AchievementsPage} />
+        <Route path="/settings" component={SettingsPage} />
         <Route>
           <div className="w-full h-full flex items-center justify-center bg-[#0a0a0a] text-white">
             <div className="text-center">
@@ -1,10 +1,15 @@
 import { useMemo } from 'react';
-import type { HexTile as HexTileType } from '../../types/tiles';
-import type { ViewState, HexCoord } from '../../types/game';
+import type { HexTile as HexTileType, TilePalette } from '../../types/tiles';
+import { TILE_STYLES } from '../../types/tiles';
+import type { ViewState, HexCoord, PlannedRoute } from '../../types/game';
 import { HexTile } from './HexTile';
-import { hexKey, pixelToHex, hexRound, hexesInRadius, hexToPixel } from '../../lib/hexMath';
+import { hexKey, hexToPixel, hexagonPath } from '../../lib/hexMath';
+import { getVisibleTiles } from './viewport';
+import { TilePatternDefs } from './TilePatternDefs';
 
-interface HexCanvasProps {
+const PATTERN_PREFIX = 'map';
+
+export interface HexCanvasProps {
   tiles: Map<string, HexTileType>;
   viewState: ViewState;
   selectedTile: string | null;
@@ -12,6 +17,17 @@ interface HexCanvasProps {
   containerHeight: number;
   onTileClick: (coords: HexCoord) => void;
   playerPosition: HexCoord;
+  route?: PlannedRoute | null;
+  /** Remaining energy per reachable tile, keyed by hexKey */
+  reachable?: Map<string, number> | null;
+  /** Tile styles to draw with, e.g. the night palette */
+  palette?: TilePalette;
+  /** Draw terrain icons on tiles */
+  showIcons?: boolean;
+  /** Overlay pattern fills so terrain reads without colour */
+  patterns?: boolean;
+  /** Skip stroke transitions on selection */
+  reducedMotion?: boolean;
 }
 
 /**
@@ -26,32 +42,20 @@ export function HexCanvas({
   containerHeight,
   onTileClick,
   playerPosition,
+  route = null,
+  reachable = null,
+  palette = TILE_STYLES,
+  showIcons = true,
+  patterns = false,
+  reducedMotion = false,
 }: HexCanvasProps) {
+  const playerKey = hexKey(playerPosition.q, playerPosition.r);
+
   // Calculate visible tiles based on viewport
-  const visibleTiles = useMemo(() => {
-    // Calculate the center hex coordinate in world space
-    const worldCenterX = -viewState.x / viewState.zoom;
-    const worldCenterY = -viewState.y / viewState.zoom;
-    
-    const hexCoord = pixelToHex(worldCenterX, worldCenterY);
-    const centerHex = hexRound(hexCoord.q, hexCoord.r);
-    
-    // Calculate radius to cover viewport plus margin
-    const maxDimension = Math.max(containerWidth, containerHeight);
-    const radius = Math.ceil((maxDimension / viewState.zoom) / 80) + 2;
-    
-    // Get all hexes in radius
-    const hexesInView = hexesInRadius(centerHex, radius);
-    
-    // Filter to only tiles that exist in our map
-    return hexesInView
-      .map(coord => {
-        const key = hexKey(coord.q, coord.r);
-        const tile = tiles.get(key);
-        return tile ? { key, tile } : null;
-      })
-      .filter((item): item is { key: string; tile: HexTileType } => item !== null);
-  }, [tiles, viewState, containerWidth, containerHeight]);
+  const visibleTiles = useMemo(
+    () => getVisibleTiles(tiles, viewState, containerWidth, containerHeight),
+    [tiles, viewState, containerWidth, containerHeight]
+  );
 
   return (
     <svg
@@ -60,6 +64,8 @@ export function HexCanvas({
       className="absolute inset-0"
       style={{ touchAction: 'none' }}
     >
+      {patterns && <TilePatternDefs palette={palette} idPrefix={PATTERN_PREFIX} />}
+
       {/* Center the coordinate system */}
       <g transform={`translate(${containerWidth / 2}, ${containerHeight / 2})`}>
         {visibleTiles.map(({ key, tile }) => (
@@ -68,10 +74,78 @@ export function HexCanvas({
             tile={tile}
             viewState={viewState}
             isSelected={key === selectedTile}
+            palette={palette}
+            showIcon={showIcons}
+            patternPrefix={patterns ? PATTERN_PREFIX : undefined}
+            animated={!reducedMotion}
             onClick={() => onTileClick({ q: tile.q, r: tile.r })}
           />
         ))}
 
+        {reachable && (
+          <g style={{ pointerEvents: 'none' }}>
+            {visibleTiles.map(({ key, tile }) => {
+              const remaining = reachable.get(key);
+              if (remaining === undefined || key === playerKey) return null;
+              const { x, y } = hexToPixel(tile.q, tile.r);
+              return (
+                <g
+                  key={key}
+                  transform={`translate(${x * viewState.zoom + viewState.x}, ${y * viewState.zoom + viewState.y}) scale(${viewState.zoom})`}
+                >
+                  <path d={hexagonPath()} fill="#22d3ee" opacity={0.14} transform="scale(0.92)" />
+                  <text
+                    y={44}
+                    textAnchor="middle"
+                    fill="#a5f3fc"
+                    fontSize={16}
+                    fontFamily="monospace"
+                  >
+                    {remaining}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        )}
+
+        {route && (() => {
+          const toScreen = (coord: HexCoord) => {
+            const { x, y } = hexToPixel(coord.q, coord.r);
+            return { x: x * viewState.zoom + viewState.x, y: y * viewState.zoom + viewState.y };
+          };
+          const points = [playerPosition, ...route.steps.map(step => step.coord)].map(toScreen);
+          const end = points[points.length - 1];
+          return (
+            <g style={{ pointerEvents: 'none' }}>
+              {route.steps.map((step, index) => {
+                const from = points[index];
+                const to = points[index + 1];
+                return (
+                  <line
+                    key={hexKey(step.coord.q, step.coord.r)}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke="#fbbf24"
+                    strokeWidth={4 * viewState.zoom}
+                    strokeLinecap="round"
+                    strokeDasharray={step.known ? undefined : `${8 * viewState.zoom} ${8 * viewState.zoom}`}
+                    opacity={0.85}
+                  />
+                );
+              })}
+              <g transform={`translate(${end.x}, ${end.y})`}>
+                <rect x={-26} y={-44} width={52} height={24} rx={6} fill="#0a0a12" stroke="#fbbf24" opacity={0.9} />
+                <text y={-27} textAnchor="middle" fill="#fde68a" fontSize={13} fontFamily="monospace">
+                  {route.hasUnknown ? '≈' : ''}{route.totalCost}⚡
+                </text>
+              </g>
+            </g>
+          );
+        })()}
+
         {(() => {
           const { x, y } = hexToPixel(playerPosition.q, playerPosition.r);
           const screenX = x * viewState.zoom + viewState.x;
@@ -0,0 +1,203 @@
+import { useEffect, useRef } from 'react';
+import type { HexCanvasProps } from './HexCanvas';
+import type { HexTile as HexTileType, TilePalette } from '../../types/tiles';
+import { TILE_STYLES } from '../../types/tiles';
+import type { PlannedRoute, ViewState, HexCoord } from '../../types/game';
+import { HEX_SIZE, hexKey, hexNeighbors, hexRound, hexToPixel, pixelToHex } from '../../lib/hexMath';
+import { getVisibleTiles } from './viewport';
+import { drawPlayer, drawReachable, drawRoute, drawTile } from './canvasDrawing';
+
+/** Pointer travel (px) beyond which a press counts as a drag, not a click */
+const CLICK_SLOP = 4;
+
+/** Extra screen pixels around a hex covered by strokes and glow */
+const DIRTY_MARGIN = 10;
+
+interface RenderedFrame {
+  tiles: Map<string, HexTileType>;
+  viewState: ViewState;
+  selectedTile: string | null;
+  playerKey: string;
+  route: PlannedRoute | null;
+  reachable: Map<string, number> | null;
+  palette: TilePalette;
+  showIcons: boolean;
+  patterns: boolean;
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * Raster alternative to HexCanvas with the same props
+ * Draws to a single <canvas>: full redraws on pan/zoom, and only the
+ * hexes that changed (plus their neighbours) when the view is still.
+ */
+export function HexCanvas2D({
+  tiles,
+  viewState,
+  selectedTile,
+  containerWidth,
+  containerHeight,
+  onTileClick,
+  playerPosition,
+  route = null,
+  reachable = null,
+  palette = TILE_STYLES,
+  showIcons = true,
+  patterns = false,
+}: HexCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastFrame = useRef<RenderedFrame | null>(null);
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const playerKey = hexKey(playerPosition.q, playerPosition.r);
+    const previous = lastFrame.current;
+    const visibleTiles = getVisibleTiles(tiles, viewState, containerWidth, containerHeight);
+
+    const setWorldTransform = () => {
+      ctx.setTransform(
+        pixelRatio * viewState.zoom,
+        0,
+        0,
+        pixelRatio * viewState.zoom,
+        pixelRatio * (containerWidth / 2 + viewState.x),
+        pixelRatio * (containerHeight / 2 + viewState.y)
+      );
+    };
+
+    const drawScene = (include: (key: string) => boolean) => {
+      visibleTiles.forEach(({ key, tile }) => {
+        if (include(key)) drawTile(ctx, tile, key === selectedTile, {
+            palette,
+            showIcon: showIcons,
+            patterned: patterns,
+          });
+      });
+      if (reachable) {
+        visibleTiles.forEach(({ key, tile }) => {
+          const remaining = reachable.get(key);
+          if (remaining !== undefined && key !== playerKey && include(key)) {
+            drawReachable(ctx, tile, remaining);
+          }
+        });
+      }
+      if (route) drawRoute(ctx, playerPosition, route);
+      drawPlayer(ctx, playerPosition);
+    };
+
+    const needsFullRedraw =
+      !previous ||
+      previous.viewState !== viewState ||
+      previous.width !== containerWidth ||
+      previous.height !== containerHeight ||
+      previous.pixelRatio !== pixelRatio ||
+      previous.route !== route ||
+      previous.reachable !== reachable ||
+      previous.palette !== palette ||
+      previous.showIcons !== showIcons ||
+      previous.patterns !== patterns;
+
+    if (needsFullRedraw) {
+      canvas.width = Math.round(containerWidth * pixelRatio);
+      canvas.height = Math.round(containerHeight * pixelRatio);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      setWorldTransform();
+      drawScene(() => true);
+    } else {
+      const dirty = new Set<string>();
+      visibleTiles.forEach(({ key, tile }) => {
+        if (previous.tiles.get(key) !== tile) dirty.add(key);
+      });
+      if (previous.selectedTile !== selectedTile) {
+        if (previous.selectedTile) dirty.add(previous.selectedTile);
+        if (selectedTile) dirty.add(selectedTile);
+      }
+      if (previous.playerKey !== playerKey) {
+        dirty.add(previous.playerKey);
+        dirty.add(playerKey);
+      }
+
+      dirty.forEach(key => {
+        const [q, r] = key.split(',').map(Number);
+        const { x, y } = hexToPixel(q, r);
+        const extent = HEX_SIZE + DIRTY_MARGIN / viewState.zoom;
+
+        // Repaint the hex's bounding box, redrawing every hex that overlaps it
+        const region = new Set([key, ...hexNeighbors(q, r).map(n => hexKey(n.q, n.r))]);
+        setWorldTransform();
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x - extent, y - extent, extent * 2, extent * 2);
+        ctx.clip();
+        ctx.clearRect(x - extent, y - extent, extent * 2, extent * 2);
+        drawScene(candidate => region.has(candidate));
+        ctx.restore();
+      });
+    }
+
+    lastFrame.current = {
+      tiles,
+      viewState,
+      selectedTile,
+      playerKey,
+      route,
+      reachable,
+      palette,
+      showIcons,
+      patterns,
+      width: containerWidth,
+      height: containerHeight,
+      pixelRatio,
+    };
+  }, [
+    tiles,
+    viewState,
+    selectedTile,
+    containerWidth,
+    containerHeight,
+    playerPosition,
+    route,
+    reachable,
+    palette,
+    showIcons,
+    patterns,
+  ]);
+
+  const hitTest = (clientX: number, clientY: number): HexCoord | null => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const worldX = (clientX - rect.left - containerWidth / 2 - viewState.x) / viewState.zoom;
+    const worldY = (clientY - rect.top - containerHeight / 2 - viewState.y) / viewState.zoom;
+    const { q, r } = pixelToHex(worldX, worldY);
+    return hexRound(q, r);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0"
+      style={{ width: containerWidth, height: containerHeight, touchAction: 'none' }}
+      onPointerDown={event => {
+        pressStart.current = { x: event.clientX, y: event.clientY };
+      }}
+      onClick={event => {
+        const start = pressStart.current;
+        pressStart.current = null;
+        if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) > CLICK_SLOP) return;
+
+        const coords = hitTest(event.clientX, event.clientY);
+        if (!coords || !tiles.has(hexKey(coords.q, coords.r))) return;
+        event.stopPropagation();
+        onTileClick(coords);
+      }}
+    />
+  );
+}
@@ -1,13 +1,20 @@
 import { memo } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import type { HexTile as HexTileType } from '../../types/tiles';
-import { TILE_STYLES } from '../../types/tiles';
+import type { HexTile as HexTileType, TilePalette } from '../../types/tiles';
+import { BIOME_STYLES, TILE_PATTERNS, TILE_STYLES } from '../../types/tiles';
 import { hexToPixel, hexagonPath } from '../../lib/hexMath';
+import { patternId } from './tilePatterns';
 
 interface HexTileProps {
   tile: HexTileType;
   viewState: { x: number; y: number; zoom: number };
   isSelected?: boolean;
+  palette?: TilePalette;
+  showIcon?: boolean;
+  /** Id prefix of the pattern defs to overlay, if pattern fills are on */
+  patternPrefix?: string;
+  /** Ease the stroke when selection changes */
+  animated?: boolean;
   onClick?: () => void;
 }
 
@@ -19,11 +26,16 @@ export const HexTile = memo(function HexTile({
   tile, 
   viewState, 
   isSelected = false,
+  palette = TILE_STYLES,
+  showIcon = true,
+  patternPrefix,
+  animated = true,
   onClick 
 }: HexTileProps) {
-  const { q, r, type, revealed, feature, featureDiscovered } = tile;
-  const baseStyle = TILE_STYLES[type];
-  const style = revealed ? baseStyle : TILE_STYLES.fog;
+  const { q, r, type, biome, revealed, feature, featureDiscovered } = tile;
+  const baseStyle = palette[type];
+  const style = revealed ? baseStyle : palette.fog;
+  const biomeStyle = BIOME_STYLES[biome];
   
   // Calculate pixel position
   const { x, y } = hexToPixel(q, r);
@@ -68,10 +80,29 @@ export const HexTile = memo(function HexTile({
         strokeWidth={isSelected ? 3 : 1.5}
         filter={isSelected ? `url(#${glowId})` : undefined}
         style={{
-          transition: 'stroke 0.2s, stroke-width 0.2s',
+          transition: animated ? 'stroke 0.2s, stroke-width 0.2s' : undefined,
         }}
       />
       
+      {/* Biome tint so regions read as distinct areas */}
+      {revealed && biomeStyle.tintOpacity > 0 && (
+        <path
+          d={path}
+          fill={biomeStyle.tintColor}
+          opacity={biomeStyle.tintOpacity}
+          style={{ pointerEvents: 'none' }}
+        />
+      )}
+      
+      {/* Pattern fill so terrain reads without colour */}
+      {revealed && patternPrefix && TILE_PATTERNS[type] && (
+        <path
+          d={path}
+          fill={`url(#${patternId(patternPrefix, type)})`}
+          style={{ pointerEvents: 'none' }}
+        />
+      )}
+      
       {/* Subtle inner glow for depth */}
       <path
         d={path}
@@ -83,32 +114,34 @@ export const HexTile = memo(function HexTile({
       />
       
       {/* Icon for tiles */}
-      <foreignObject 
-        x={-16} 
-        y={-16} 
-        width={32} 
-        height={32}
-        style={{ pointerEvents: 'none' }}
-      >
-        <div 
-          style={{ 
-            width: '100%', 
-            height: '100%', 
-            display: 'flex', 
-            alignItems: 'center', 
-            justifyContent: 'center' 
-          }}
+      {showIcon && (
+        <foreignObject 
+          x={-16} 
+          y={-16} 
+          width={32} 
+          height={32}
+          style={{ pointerEvents: 'none' }}
         >
-          <FontAwesomeIcon 
-            icon={style.icon} 
+          <div 
             style={{ 
-              color: style.iconColor,
-              fontSize: '18px',
-              filter: `drop-shadow(0 0 4px ${style.iconColor}40)`
-            }} 
-          />
-        </div>
-      </foreignObject>
+              width: '100%', 
+              height: '100%', 
+              display: 'flex', 
+              alignItems: 'center', 
+              justifyContent: 'center' 
+            }}
+          >
+            <FontAwesomeIcon 
+              icon={style.icon} 
+              style={{ 
+                color: style.iconColor,
+                fontSize: '18px',
+                filter: `drop-shadow(0 0 4px ${style.iconColor}40)`
+              }} 
+            />
+          </div>
+        </foreignObject>
+      )}
 
       {revealed && feature === 'cache' && !featureDiscovered && (
         <circle
@@ -0,0 +1,59 @@
+import type { TilePalette, TileType } from '../../types/tiles';
+import { TILE_PATTERNS } from '../../types/tiles';
+import {
+  PATTERN_CELL,
+  PATTERN_DOT_RADIUS,
+  PATTERN_LINE_WIDTH,
+  PATTERN_OPACITY,
+  PATTERN_SHAPES,
+  patternId,
+} from './tilePatterns';
+
+interface TilePatternDefsProps {
+  palette: TilePalette;
+  /** Prefix for the pattern ids, unique per <svg> */
+  idPrefix: string;
+}
+
+const PATTERNED_TYPES = Object.keys(TILE_PATTERNS) as TileType[];
+
+/**
+ * <pattern> definitions for every patterned terrain, coloured by the palette
+ * Reference them with fill={`url(#${patternId(idPrefix, type)})`}.
+ */
+export function TilePatternDefs({ palette, idPrefix }: TilePatternDefsProps) {
+  return (
+    <defs>
+      {PATTERNED_TYPES.map(type => {
+        const shape = PATTERN_SHAPES[TILE_PATTERNS[type]!];
+        const color = palette[type].strokeColor;
+        return (
+          <pattern
+            key={type}
+            id={patternId(idPrefix, type)}
+            width={PATTERN_CELL}
+            height={PATTERN_CELL}
+            patternUnits="userSpaceOnUse"
+          >
+            <g opacity={PATTERN_OPACITY}>
+              {shape.lines.map(([x1, y1, x2, y2], index) => (
+                <line
+                  key={`line-${index}`}
+                  x1={x1}
+                  y1={y1}
+                  x2={x2}
+                  y2={y2}
+                  stroke={color}
+                  strokeWidth={PATTERN_LINE_WIDTH}
+                />
+              ))}
+              {shape.dots.map(([cx, cy], index) => (
+                <circle key={`dot-${index}`} cx={cx} cy={cy} r={PATTERN_DOT_RADIUS} fill={color} />
+              ))}
+            </g>
+          </pattern>
+        );
+      })}
+    </defs>
+  );
+}
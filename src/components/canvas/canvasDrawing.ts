@@ -0,0 +1,280 @@
+/**
+ * Immediate-mode drawing helpers for the <canvas> renderer
+ *
+ * All functions draw in world coordinates; the caller sets up the
+ * pan/zoom transform once per frame. Icons and pattern cells are
+ * rasterized once per shape/color pair and reused.
+ */
+
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import type { HexTile, TilePalette, TilePattern } from '../../types/tiles';
+import { BIOME_STYLES, TILE_PATTERNS, TILE_STYLES } from '../../types/tiles';
+import type { HexCoord, PlannedRoute } from '../../types/game';
+import { hexToPixel, hexagonPath } from '../../lib/hexMath';
+import {
+  PATTERN_CELL,
+  PATTERN_DOT_RADIUS,
+  PATTERN_LINE_WIDTH,
+  PATTERN_OPACITY,
+  PATTERN_SHAPES,
+} from './tilePatterns';
+
+const ICON_SIZE = 18;
+const SPRITE_RESOLUTION = 64;
+/** Share of the sprite the glyph occupies; the rest is room for its glow */
+const GLYPH_FILL = 0.75;
+const SPRITE_SIZE = ICON_SIZE / GLYPH_FILL;
+const SELECTED_STROKE = '#fbbf24';
+/** Pixels per world unit in rasterized pattern cells, so they stay crisp when zoomed in */
+const PATTERN_RESOLUTION = 4;
+
+let hexPath: Path2D | null = null;
+const spriteCache = new Map<string, HTMLCanvasElement>();
+const patternCache = new Map<string, HTMLCanvasElement>();
+
+function getHexPath(): Path2D {
+  hexPath ??= new Path2D(hexagonPath());
+  return hexPath;
+}
+
+/**
+ * Rasterize a Font Awesome icon into a reusable sprite
+ */
+function getIconSprite(icon: IconDefinition, color: string): HTMLCanvasElement {
+  const cacheKey = `${icon.prefix}-${icon.iconName}:${color}`;
+  const cached = spriteCache.get(cacheKey);
+  if (cached) return cached;
+
+  const [width, height, , , pathData] = icon.icon;
+  const sprite = document.createElement('canvas');
+  sprite.width = SPRITE_RESOLUTION;
+  sprite.height = SPRITE_RESOLUTION;
+
+  const ctx = sprite.getContext('2d');
+  if (ctx) {
+    const inner = SPRITE_RESOLUTION * GLYPH_FILL;
+    const scale = inner / Math.max(width, height);
+    ctx.translate((SPRITE_RESOLUTION - width * scale) / 2, (SPRITE_RESOLUTION - height * scale) / 2);
+    ctx.scale(scale, scale);
+    ctx.fillStyle = color;
+    ctx.shadowColor = `${color}40`;
+    ctx.shadowBlur = 4 / scale;
+    (Array.isArray(pathData) ? pathData : [pathData]).forEach(data => ctx.fill(new Path2D(data)));
+  }
+
+  spriteCache.set(cacheKey, sprite);
+  return sprite;
+}
+
+/**
+ * Rasterize one cell of a pattern for use with createPattern
+ */
+function getPatternCell(pattern: TilePattern, color: string): HTMLCanvasElement {
+  const cacheKey = `${pattern}:${color}`;
+  const cached = patternCache.get(cacheKey);
+  if (cached) return cached;
+
+  const cell = document.createElement('canvas');
+  cell.width = PATTERN_CELL * PATTERN_RESOLUTION;
+  cell.height = PATTERN_CELL * PATTERN_RESOLUTION;
+
+  const ctx = cell.getContext('2d');
+  if (ctx) {
+    const shape = PATTERN_SHAPES[pattern];
+    ctx.scale(PATTERN_RESOLUTION, PATTERN_RESOLUTION);
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = PATTERN_LINE_WIDTH;
+    shape.lines.forEach(([x1, y1, x2, y2]) => {
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+    });
+    shape.dots.forEach(([cx, cy]) => {
+      ctx.beginPath();
+      ctx.arc(cx, cy, PATTERN_DOT_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+
+  patternCache.set(cacheKey, cell);
+  return cell;
+}
+
+export interface TileDrawOptions {
+  palette?: TilePalette;
+  showIcon?: boolean;
+  /** Overlay the terrain's pattern fill */
+  patterned?: boolean;
+}
+
+/**
+ * Draw a single tile with its terrain, biome tint, pattern, icon and feature marker
+ */
+export function drawTile(
+  ctx: CanvasRenderingContext2D,
+  tile: HexTile,
+  isSelected: boolean,
+  { palette = TILE_STYLES, showIcon = true, patterned = false }: TileDrawOptions = {}
+): void {
+  const style = tile.revealed ? palette[tile.type] : palette.fog;
+  const biomeStyle = BIOME_STYLES[tile.biome];
+  const { x, y } = hexToPixel(tile.q, tile.r);
+  const path = getHexPath();
+
+  ctx.save();
+  ctx.translate(x, y);
+
+  ctx.fillStyle = style.fillColor;
+  ctx.fill(path);
+
+  if (tile.revealed && biomeStyle.tintOpacity > 0) {
+    ctx.globalAlpha = biomeStyle.tintOpacity;
+    ctx.fillStyle = biomeStyle.tintColor;
+    ctx.fill(path);
+    ctx.globalAlpha = 1;
+  }
+
+  const pattern = tile.revealed && patterned ? TILE_PATTERNS[tile.type] : undefined;
+  const fill = pattern && ctx.createPattern(getPatternCell(pattern, style.strokeColor), 'repeat');
+  if (fill) {
+    fill.setTransform(new DOMMatrix().scale(1 / PATTERN_RESOLUTION));
+    ctx.globalAlpha = PATTERN_OPACITY;
+    ctx.fillStyle = fill;
+    ctx.fill(path);
+    ctx.globalAlpha = 1;
+  }
+
+  if (isSelected) {
+    ctx.shadowColor = SELECTED_STROKE;
+    ctx.shadowBlur = 8;
+  }
+  ctx.strokeStyle = isSelected ? SELECTED_STROKE : style.strokeColor;
+  ctx.lineWidth = isSelected ? 3 : 1.5;
+  ctx.stroke(path);
+  ctx.shadowBlur = 0;
+
+  ctx.save();
+  ctx.scale(0.85, 0.85);
+  ctx.globalAlpha = 0.3;
+  ctx.strokeStyle = style.strokeColor;
+  ctx.lineWidth = 0.5 / 0.85;
+  ctx.stroke(path);
+  ctx.restore();
+
+  if (showIcon) {
+    ctx.drawImage(
+      getIconSprite(style.icon, style.iconColor),
+      -SPRITE_SIZE / 2,
+      -SPRITE_SIZE / 2,
+      SPRITE_SIZE,
+      SPRITE_SIZE
+    );
+  }
+
+  if (tile.revealed && tile.feature === 'cache' && !tile.featureDiscovered) {
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = '#22d3ee';
+    ctx.beginPath();
+    ctx.arc(22, -22, 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Draw the reachability highlight and remaining energy for one tile
+ */
+export function drawReachable(ctx: CanvasRenderingContext2D, coord: HexCoord, remaining: number): void {
+  const { x, y } = hexToPixel(coord.q, coord.r);
+  ctx.save();
+  ctx.translate(x, y);
+
+  ctx.save();
+  ctx.scale(0.92, 0.92);
+  ctx.globalAlpha = 0.14;
+  ctx.fillStyle = '#22d3ee';
+  ctx.fill(getHexPath());
+  ctx.restore();
+
+  ctx.fillStyle = '#a5f3fc';
+  ctx.font = '16px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(String(remaining), 0, 44);
+  ctx.restore();
+}
+
+/**
+ * Draw a planned route from the player to its destination
+ */
+export function drawRoute(
+  ctx: CanvasRenderingContext2D,
+  playerPosition: HexCoord,
+  route: PlannedRoute
+): void {
+  const points = [playerPosition, ...route.steps.map(step => step.coord)].map(coord =>
+    hexToPixel(coord.q, coord.r)
+  );
+
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  ctx.strokeStyle = SELECTED_STROKE;
+  ctx.lineWidth = 4;
+  ctx.lineCap = 'round';
+  route.steps.forEach((step, index) => {
+    ctx.setLineDash(step.known ? [] : [8, 8]);
+    ctx.beginPath();
+    ctx.moveTo(points[index].x, points[index].y);
+    ctx.lineTo(points[index + 1].x, points[index + 1].y);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  const end = points[points.length - 1];
+  ctx.globalAlpha = 0.9;
+  ctx.fillStyle = '#0a0a12';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(end.x - 26, end.y - 44, 52, 24, 6);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#fde68a';
+  ctx.font = '13px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(`${route.hasUnknown ? '≈' : ''}${route.totalCost}⚡`, end.x, end.y - 27);
+  ctx.restore();
+}
+
+/**
+ * Draw the player marker
+ */
+export function drawPlayer(ctx: CanvasRenderingContext2D, position: HexCoord): void {
+  const { x, y } = hexToPixel(position.q, position.r);
+  const circle = (radius: number) => {
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+  };
+
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  ctx.fillStyle = '#0ea5e9';
+  circle(18);
+  ctx.fill();
+
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#38bdf8';
+  ctx.strokeStyle = '#e0f2fe';
+  ctx.lineWidth = 2;
+  circle(10);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = '#f8fafc';
+  circle(4);
+  ctx.fill();
+  ctx.restore();
+}
@@ -0,0 +1,54 @@
+/**
+ * Geometry of the terrain pattern fills
+ *
+ * Each pattern is one square cell of lines and dots in world units,
+ * tiled across the hex. The SVG and canvas renderers both draw from
+ * these shapes so the two look the same.
+ */
+
+import type { TilePattern, TileType } from '../../types/tiles';
+
+/** Cell edge length in world units (a hex is 160 across) */
+export const PATTERN_CELL = 12;
+export const PATTERN_LINE_WIDTH = 1.5;
+export const PATTERN_DOT_RADIUS = 1.8;
+/** Patterns are drawn in the terrain's stroke colour at this opacity */
+export const PATTERN_OPACITY = 0.45;
+
+export interface PatternShape {
+  /** Segments as [x1, y1, x2, y2] */
+  lines: Array<[number, number, number, number]>;
+  /** Dot centres as [x, y] */
+  dots: Array<[number, number]>;
+}
+
+const C = PATTERN_CELL;
+const HALF = C / 2;
+
+// Diagonals get extra segments past the cell corners so neighbouring cells join up
+const RISING: PatternShape['lines'] = [
+  [0, C, C, 0],
+  [-HALF, HALF, HALF, -HALF],
+  [HALF, C + HALF, C + HALF, HALF],
+];
+const FALLING: PatternShape['lines'] = [
+  [0, 0, C, C],
+  [-HALF, HALF, HALF, C + HALF],
+  [HALF, -HALF, C + HALF, HALF],
+];
+
+export const PATTERN_SHAPES: Record<TilePattern, PatternShape> = {
+  hatch: { lines: RISING, dots: [] },
+  crossHatch: { lines: [...RISING, ...FALLING], dots: [] },
+  lines: { lines: [[0, HALF, C, HALF]], dots: [] },
+  dots: { lines: [], dots: [[C / 4, C / 4], [(C * 3) / 4, (C * 3) / 4]] },
+  grid: { lines: [[0, 0, C, 0], [0, 0, 0, C]], dots: [] },
+};
+
+/**
+ * Element id of a terrain's SVG pattern
+ * Each <svg> defining patterns passes its own prefix so ids never collide.
+ */
+export function patternId(prefix: string, type: TileType): string {
+  return `${prefix}-pattern-${type}`;
+}
@@ -0,0 +1,39 @@
+import type { HexTile } from '../../types/tiles';
+import type { ViewState } from '../../types/game';
+import { HEX_SIZE, hexKey, pixelToHex, hexRound, hexesInRadius } from '../../lib/hexMath';
+
+export interface VisibleTile {
+  key: string;
+  tile: HexTile;
+}
+
+/**
+ * Collect the generated tiles that fall inside the viewport (plus a margin)
+ * Shared by every renderer so they cull identically
+ */
+export function getVisibleTiles(
+  tiles: Map<string, HexTile>,
+  viewState: ViewState,
+  containerWidth: number,
+  containerHeight: number
+): VisibleTile[] {
+  // Calculate the center hex coordinate in world space
+  const worldCenterX = -viewState.x / viewState.zoom;
+  const worldCenterY = -viewState.y / viewState.zoom;
+
+  const hexCoord = pixelToHex(worldCenterX, worldCenterY);
+  const centerHex = hexRound(hexCoord.q, hexCoord.r);
+
+  // Calculate radius to cover viewport plus margin
+  const maxDimension = Math.max(containerWidth, containerHeight);
+  const radius = Math.ceil((maxDimension / viewState.zoom) / HEX_SIZE) + 2;
+
+  // Filter to only tiles that exist in our map
+  return hexesInRadius(centerHex, radius)
+    .map(coord => {
+      const key = hexKey(coord.q, coord.r);
+      const tile = tiles.get(key);
+      return tile ? { key, tile } : null;
+    })
+    .filter((item): item is VisibleTile => item !== null);
+}
@@ -0,0 +1,73 @@
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { RECIPE_LIST } from '../../types/recipes';
+import type { Recipe, RecipeId } from '../../types/recipes';
+import { TILE_STYLES } from '../../types/tiles';
+import { EQUIPMENT } from '../../types/equipment';
+import type { GameState, RejectionReason } from '../../types/game';
+import { craftRejection } from '../../engine/gameEngine';
+
+interface CraftingPanelProps {
+  state: GameState;
+  onCraft: (recipe: RecipeId) => void;
+}
+
+const UNAVAILABLE_HINTS: Partial<Record<RejectionReason, string>> = {
+  insufficientResources: 'Missing resources',
+  alreadyOwned: 'Already owned',
+};
+
+function formatAmounts(amounts: Partial<Record<string, number>>): string {
+  return Object.entries(amounts)
+    .map(([resource, amount]) => `${amount} ${resource}`)
+    .join(' ');
+}
+
+function describeOutputs({ outputs }: Recipe): string {
+  const parts: string[] = [];
+  if (outputs.equipment) parts.push(EQUIPMENT[outputs.equipment].label);
+  if (outputs.resources) parts.push(formatAmounts(outputs.resources));
+  if (outputs.energy) parts.push(`+${outputs.energy} energy`);
+  return parts.join(', ');
+}
+
+/**
+ * Every known recipe with its cost and output
+ * Recipes the player cannot craft right now are greyed out with the reason.
+ */
+export function CraftingPanel({ state, onCraft }: CraftingPanelProps) {
+  return (
+    <div className="space-y-2">
+      {RECIPE_LIST.map(recipe => {
+        const rejection = craftRejection(state, recipe.id);
+        const hint = rejection
+          ? rejection === 'wrongStation' && recipe.station
+            ? `Needs a ${TILE_STYLES[recipe.station].label.toLowerCase()}`
+            : UNAVAILABLE_HINTS[rejection]
+          : null;
+
+        return (
+          <button
+            key={recipe.id}
+            onClick={() => onCraft(recipe.id)}
+            disabled={rejection !== null}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition ${
+              rejection
+                ? 'bg-white/5 text-white/30 cursor-not-allowed'
+                : 'bg-amber-500/15 text-amber-100 hover:bg-amber-500/25'
+            }`}
+            title={recipe.description}
+          >
+            <FontAwesomeIcon icon={recipe.icon} className="w-4" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">{recipe.label}</div>
+              <div className="text-xs opacity-70 truncate">
+                {formatAmounts(recipe.inputs)} → {describeOutputs(recipe)}
+              </div>
+            </div>
+            {hint && <span className="text-xs text-white/40 shrink-0">{hint}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
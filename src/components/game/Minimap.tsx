@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { HexTile } from '../../types/tiles';
+import type { TilePalette } from '../../types/tiles';
+import { TILE_STYLES } from '../../types/tiles';
+import type { HexCoord, ViewState } from '../../types/game';
+import { HEX_SIZE, hexToPixel } from '../../lib/hexMath';
+
+/** Minimap edge length in CSS pixels */
+const MINIMAP_SIZE = 192;
+
+/** Never zoom in further than this many screen pixels per world pixel */
+const MAX_SCALE = 0.08;
+
+/** Signal strength (%) at which the beacon bearing becomes visible */
+const BEARING_SIGNAL_THRESHOLD = 40;
+
+interface MinimapProps {
+  tiles: Map<string, HexTile>;
+  playerPosition: HexCoord;
+  beacon: HexCoord;
+  signalStrength: number;
+  viewState: ViewState;
+  containerWidth: number;
+  containerHeight: number;
+  onNavigate: (world: { x: number; y: number }) => void;
+  palette?: TilePalette;
+}
+
+interface MinimapFrame {
+  centerX: number;
+  centerY: number;
+  scale: number;
+}
+
+/**
+ * Overview of every revealed tile with the player, outposts,
+ * the camera viewport and (once the signal is strong) the beacon bearing
+ * Clicking the minimap moves the camera there.
+ */
+export function Minimap({
+  tiles,
+  playerPosition,
+  beacon,
+  signalStrength,
+  viewState,
+  containerWidth,
+  containerHeight,
+  onNavigate,
+  palette = TILE_STYLES,
+}: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const revealed = useMemo(
+    () => Array.from(tiles.values()).filter(tile => tile.revealed),
+    [tiles]
+  );
+
+  // Fit the explored area into the minimap
+  const frame = useMemo<MinimapFrame>(() => {
+    const player = hexToPixel(playerPosition.q, playerPosition.r);
+    let minX = player.x;
+    let maxX = player.x;
+    let minY = player.y;
+    let maxY = player.y;
+    revealed.forEach(tile => {
+      const { x, y } = hexToPixel(tile.q, tile.r);
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    });
+
+    const extent = Math.max(maxX - minX, maxY - minY) + HEX_SIZE * 4;
+    return {
+      centerX: (minX + maxX) / 2,
+      centerY: (minY + maxY) / 2,
+      scale: Math.min(MINIMAP_SIZE / extent, MAX_SCALE),
+    };
+  }, [playerPosition, revealed]);
+
+  const showBearing = signalStrength >= BEARING_SIGNAL_THRESHOLD;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = MINIMAP_SIZE * pixelRatio;
+    canvas.height = MINIMAP_SIZE * pixelRatio;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+
+    const toMap = (x: number, y: number) => ({
+      x: (x - frame.centerX) * frame.scale + MINIMAP_SIZE / 2,
+      y: (y - frame.centerY) * frame.scale + MINIMAP_SIZE / 2,
+    });
+    const dot = (x: number, y: number, radius: number, color: string) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    };
+
+    const tileRadius = Math.max(HEX_SIZE * frame.scale, 1.5);
+    revealed.forEach(tile => {
+      const world = hexToPixel(tile.q, tile.r);
+      const { x, y } = toMap(world.x, world.y);
+      ctx.globalAlpha = tile.explored ? 0.9 : 0.45;
+      dot(x, y, tileRadius, palette[tile.type].strokeColor);
+    });
+    ctx.globalAlpha = 1;
+
+    // Outposts stand out above the terrain
+    revealed.forEach(tile => {
+      if (tile.type !== 'settlement') return;
+      const world = hexToPixel(tile.q, tile.r);
+      const { x, y } = toMap(world.x, world.y);
+      dot(x, y, tileRadius + 2, palette.settlement.iconColor);
+    });
+
+    // Camera viewport
+    const viewWidth = containerWidth / viewState.zoom;
+    const viewHeight = containerHeight / viewState.zoom;
+    const viewCenter = toMap(-viewState.x / viewState.zoom, -viewState.y / viewState.zoom);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      viewCenter.x - (viewWidth * frame.scale) / 2,
+      viewCenter.y - (viewHeight * frame.scale) / 2,
+      viewWidth * frame.scale,
+      viewHeight * frame.scale
+    );
+
+    const playerWorld = hexToPixel(playerPosition.q, playerPosition.r);
+    const player = toMap(playerWorld.x, playerWorld.y);
+
+    if (showBearing) {
+      const beaconWorld = hexToPixel(beacon.q, beacon.r);
+      const angle = Math.atan2(beaconWorld.y - playerWorld.y, beaconWorld.x - playerWorld.x);
+      const length = 22;
+      ctx.save();
+      ctx.translate(player.x, player.y);
+      ctx.rotate(angle);
+      ctx.strokeStyle = palette.beacon.strokeColor;
+      ctx.fillStyle = palette.beacon.strokeColor;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(6, 0);
+      ctx.lineTo(length, 0);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(length + 6, 0);
+      ctx.lineTo(length - 2, -5);
+      ctx.lineTo(length - 2, 5);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    }
+
+    dot(player.x, player.y, 4, '#38bdf8');
+  }, [
+    beacon,
+    containerHeight,
+    containerWidth,
+    frame,
+    palette,
+    playerPosition,
+    revealed,
+    showBearing,
+    viewState,
+  ]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const mapX = event.clientX - rect.left - MINIMAP_SIZE / 2;
+    const mapY = event.clientY - rect.top - MINIMAP_SIZE / 2;
+    onNavigate({
+      x: mapX / frame.scale + frame.centerX,
+      y: mapY / frame.scale + frame.centerY,
+    });
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md p-3 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between text-white/40 text-xs uppercase tracking-[0.2em] mb-2">
+        <span>Map</span>
+        {showBearing && <span className="text-yellow-300/80 normal-case tracking-normal">Beacon bearing</span>}
+      </div>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        className="cursor-crosshair rounded-lg bg-[#050508]"
+        style={{ width: MINIMAP_SIZE, height: MINIMAP_SIZE }}
+      />
+    </div>
+  );
+}
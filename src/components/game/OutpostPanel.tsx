@@ -0,0 +1,152 @@
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import {
+  faTree,
+  faWater,
+  faMountain,
+  faGem,
+  faBoxOpen,
+  faLocationDot,
+  faRoute,
+} from '@fortawesome/free-solid-svg-icons';
+import { hexDistance } from '../../lib/hexMath';
+import type { GameState, HexCoord, InventoryState, Outpost, RejectionReason } from '../../types/game';
+import { fastTravelRejection, storageRejection } from '../../engine/gameEngine';
+import { OUTPOST_CAPACITY, outpostAt, travelFee } from '../../engine/outposts';
+
+interface OutpostPanelProps {
+  state: GameState;
+  onTravel: (to: HexCoord) => void;
+  onDeposit: (resources: Partial<InventoryState>) => void;
+  onWithdraw: (resources: Partial<InventoryState>) => void;
+}
+
+const RESOURCES: Array<{ id: keyof InventoryState; label: string; icon: IconDefinition }> = [
+  { id: 'wood', label: 'Wood', icon: faTree },
+  { id: 'water', label: 'Water', icon: faWater },
+  { id: 'ore', label: 'Ore', icon: faMountain },
+  { id: 'relics', label: 'Relics', icon: faGem },
+  { id: 'supplies', label: 'Rations', icon: faBoxOpen },
+];
+
+const TRAVEL_HINTS: Partial<Record<RejectionReason, string>> = {
+  notAtOutpost: 'Travel from an outpost',
+  notConnected: 'Out of range',
+  exhausted: 'Not enough energy',
+};
+
+/**
+ * Everything the player carries that the outpost still has room for
+ */
+function depositable(state: GameState, outpost: Outpost): Partial<InventoryState> {
+  return Object.fromEntries(
+    RESOURCES.map(({ id }) => [id, Math.min(state.inventory[id], OUTPOST_CAPACITY - outpost.stock[id])])
+  );
+}
+
+/**
+ * Every outpost with its stock, storage controls for the one underfoot,
+ * and fast travel to the ones linked to it
+ */
+export function OutpostPanel({ state, onTravel, onDeposit, onWithdraw }: OutpostPanelProps) {
+  const { player } = state;
+  const here = outpostAt(state.outposts, player.position);
+
+  return (
+    <div className="space-y-3">
+      {state.outposts.map(outpost => {
+        const isHere = outpost === here;
+        const rejection = isHere ? null : fastTravelRejection(state, outpost.position);
+
+        return (
+          <div
+            key={`${outpost.position.q},${outpost.position.r}`}
+            className={`px-4 py-3 rounded-lg border ${
+              isHere ? 'bg-emerald-500/10 border-emerald-400/30' : 'bg-white/5 border-white/10'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-white/90 text-sm font-medium">{outpost.name}</div>
+                <div className="text-white/40 text-xs">
+                  {outpost.position.q}, {outpost.position.r} ·{' '}
+                  {isHere ? 'You are here' : `${hexDistance(player.position, outpost.position)} hexes away`}
+                </div>
+              </div>
+              {isHere ? (
+                <FontAwesomeIcon icon={faLocationDot} className="text-emerald-300" />
+              ) : (
+                <button
+                  onClick={() => onTravel(outpost.position)}
+                  disabled={rejection !== null}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs transition ${
+                    rejection
+                      ? 'bg-white/5 text-white/30 cursor-not-allowed'
+                      : 'bg-cyan-500/20 text-cyan-100 hover:bg-cyan-500/30'
+                  }`}
+                  title={rejection ? TRAVEL_HINTS[rejection] : undefined}
+                >
+                  <FontAwesomeIcon icon={faRoute} />
+                  Travel · {travelFee(player.position, outpost.position)}⚡
+                </button>
+              )}
+            </div>
+
+            <div className="mt-3 grid grid-cols-5 gap-2 text-xs">
+              {RESOURCES.map(({ id, label, icon }) => (
+                <div key={id} className="flex flex-col items-center gap-1 text-white/60" title={label}>
+                  <span className="flex items-center gap-1">
+                    <FontAwesomeIcon icon={icon} />
+                    {outpost.stock[id]}
+                  </span>
+                  {isHere && (
+                    <span className="flex gap-1">
+                      <button
+                        onClick={() => onDeposit({ [id]: 1 })}
+                        disabled={storageRejection(state, 'deposit', { [id]: 1 }) !== null}
+                        className="px-1.5 rounded bg-white/5 hover:bg-white/10 disabled:text-white/20 disabled:hover:bg-white/5"
+                        title={`Store 1 ${label.toLowerCase()}`}
+                      >
+                        +
+                      </button>
+                      <button
+                        onClick={() => onWithdraw({ [id]: 1 })}
+                        disabled={storageRejection(state, 'withdraw', { [id]: 1 }) !== null}
+                        className="px-1.5 rounded bg-white/5 hover:bg-white/10 disabled:text-white/20 disabled:hover:bg-white/5"
+                        title={`Take 1 ${label.toLowerCase()}`}
+                      >
+                        −
+                      </button>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isHere && (
+              <div className="mt-3 flex gap-2">
+                <button
+                  onClick={() => onDeposit(depositable(state, outpost))}
+                  disabled={storageRejection(state, 'deposit', depositable(state, outpost)) !== null}
+                  className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-xs disabled:text-white/20 disabled:hover:bg-white/5"
+                >
+                  Store all
+                </button>
+                <button
+                  onClick={() => onWithdraw(outpost.stock)}
+                  disabled={storageRejection(state, 'withdraw', outpost.stock) !== null}
+                  className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-xs disabled:text-white/20 disabled:hover:bg-white/5"
+                >
+                  Take all
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <div className="text-white/40 text-xs">
+        Outposts harvest adjacent terrain and hold up to {OUTPOST_CAPACITY} of each resource.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { PERKS } from '../../types/perks';
+import type { PerkId } from '../../types/perks';
+import type { GameState } from '../../types/game';
+import { PERK_COST, perkRejection } from '../../engine/gameEngine';
+
+interface PerkPanelProps {
+  state: GameState;
+  onChoose: (perk: PerkId) => void;
+}
+
+/**
+ * Permanent perks the player can trade relics for
+ * Chosen perks stay listed but cannot be bought twice.
+ */
+export function PerkPanel({ state, onChoose }: PerkPanelProps) {
+  return (
+    <div className="space-y-2">
+      <div className="text-white/50 text-sm mb-3">
+        Each perk costs {PERK_COST} relics. You carry {state.inventory.relics}.
+      </div>
+      {Object.values(PERKS).map(perk => {
+        const rejection = perkRejection(state, perk.id);
+        const chosen = rejection === 'alreadyChosen';
+
+        return (
+          <button
+            key={perk.id}
+            onClick={() => onChoose(perk.id)}
+            disabled={rejection !== null}
+            className={`w-full flex items-center gap-3 px-3 py-3 rounded-lg text-left text-sm transition ${
+              chosen
+                ? 'bg-violet-500/10 text-violet-200/60 cursor-default'
+                : rejection
+                  ? 'bg-white/5 text-white/30 cursor-not-allowed'
+                  : 'bg-violet-500/15 text-violet-100 hover:bg-violet-500/25'
+            }`}
+          >
+            <FontAwesomeIcon icon={perk.icon} className="w-4" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">{perk.label}</div>
+              <div className="text-xs opacity-70">{perk.description}</div>
+            </div>
+            {chosen && <span className="text-xs shrink-0">Active</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
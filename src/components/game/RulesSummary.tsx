@@ -0,0 +1,39 @@
+import { difficultyOf } from '../../engine/config';
+import { DIFFICULTIES, RULE_LIMITS } from '../../types/config';
+import type { GameConfig, ScalarRule } from '../../types/config';
+
+interface RulesSummaryProps {
+  config: GameConfig;
+}
+
+const SCALAR_RULES = Object.keys(RULE_LIMITS) as ScalarRule[];
+
+/**
+ * Read-only list of the rules an expedition is played under
+ */
+export function RulesSummary({ config }: RulesSummaryProps) {
+  const { wood, ore, water } = config.outpostCost;
+
+  return (
+    <div className="text-left">
+      <div className="flex items-baseline justify-between">
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em]">Difficulty</div>
+        <div className="text-white/90 font-medium">{DIFFICULTIES[difficultyOf(config)].label}</div>
+      </div>
+      <div className="mt-3 space-y-1.5 text-sm">
+        {SCALAR_RULES.map(rule => (
+          <div key={rule} className="flex items-center justify-between gap-4">
+            <span className="text-white/50">{RULE_LIMITS[rule].label}</span>
+            <span className="text-white/85 font-mono">{config[rule]}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-white/50">Outpost cost</span>
+          <span className="text-white/85 font-mono">
+            {wood} wood · {ore} ore · {water} water
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { RunSummary } from '../../engine/scoring';
+import { DIFFICULTIES } from '../../types/config';
+
+interface RunSummaryPanelProps {
+  summary: RunSummary;
+  /** Place on this seed's leaderboard, if the run has been recorded */
+  rank?: number | null;
+}
+
+/**
+ * End-of-run statistics and score
+ */
+export function RunSummaryPanel({ summary, rank }: RunSummaryPanelProps) {
+  const rows: Array<[string, string | number]> = [
+    ['Difficulty', DIFFICULTIES[summary.difficulty ?? 'normal'].label],
+    ['Turns', summary.turns],
+    ['Energy spent', summary.energySpent],
+    ['Tiles explored', summary.tilesExplored],
+    ['Relics found', summary.relicsFound],
+    ['Outposts built', summary.outpostsBuilt],
+    ['Caches found', summary.cachesFound],
+    ['Path length', `${summary.pathLength} hexes (beacon ${summary.optimalDistance} away)`],
+  ];
+
+  return (
+    <div className="text-left">
+      <div className="flex items-baseline justify-between">
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em]">Score</div>
+        <div className="text-3xl text-white font-semibold font-mono">{summary.score}</div>
+      </div>
+      {rank != null && (
+        <div className="mt-1 text-right text-cyan-200/80 text-xs">#{rank} on this seed</div>
+      )}
+      <div className="mt-4 space-y-1.5 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex items-center justify-between gap-4">
+            <span className="text-white/50">{label}</span>
+            <span className="text-white/85 font-mono text-right">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import type { TileStyle } from '../../types/tiles';
+import { TILE_PATTERNS } from '../../types/tiles';
+import { patternId } from '../canvas/tilePatterns';
+
+interface TileSwatchProps {
+  style: TileStyle;
+  /** Id prefix of pattern defs rendered elsewhere on the page, if pattern fills are on */
+  patternPrefix?: string;
+}
+
+/**
+ * Small square showing a terrain's fill, outline, pattern and icon
+ */
+export function TileSwatch({ style, patternPrefix }: TileSwatchProps) {
+  const patterned = patternPrefix !== undefined && TILE_PATTERNS[style.id] !== undefined;
+
+  return (
+    <div className="relative w-5 h-5 shrink-0">
+      <svg className="absolute inset-0" viewBox="0 0 20 20">
+        {/* Drawn at double size so pattern cells shrink to suit the swatch */}
+        <g transform="scale(0.5)">
+          <rect x={1} y={1} width={38} height={38} rx={8} fill={style.fillColor} stroke={style.strokeColor} strokeWidth={2} />
+          {patterned && (
+            <rect x={1} y={1} width={38} height={38} rx={8} fill={`url(#${patternId(patternPrefix, style.id)})`} />
+          )}
+        </g>
+      </svg>
+      <FontAwesomeIcon
+        icon={style.icon}
+        style={{ color: style.iconColor }}
+        className="absolute inset-0 m-auto text-[10px]"
+      />
+    </div>
+  );
+}
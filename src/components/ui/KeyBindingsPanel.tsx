@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { COMMANDS, formatKey, normalizeKey } from '../../lib/keyBindings';
+import type { CommandId, KeyBindings } from '../../lib/keyBindings';
+
+interface KeyBindingsPanelProps {
+  bindings: KeyBindings;
+  onRebind: (command: CommandId, key: string) => void;
+  onReset: () => void;
+}
+
+const GROUPS = ['Movement', 'Actions', 'Camera'] as const;
+
+/**
+ * Lists every keyboard command and lets the player rebind it
+ * Click a key, then press the new key (Escape cancels).
+ */
+export function KeyBindingsPanel({ bindings, onRebind, onReset }: KeyBindingsPanelProps) {
+  const [listening, setListening] = useState<CommandId | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key !== 'Escape') {
+        onRebind(listening, normalizeKey(event.key));
+      }
+      setListening(null);
+    };
+
+    // Capture phase so the key never reaches game controls
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, onRebind]);
+
+  return (
+    <div className="space-y-5">
+      {GROUPS.map(group => (
+        <div key={group}>
+          <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">{group}</div>
+          <div className="grid grid-cols-2 gap-2">
+            {COMMANDS.filter(command => command.group === group).map(command => (
+              <div
+                key={command.id}
+                className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 text-sm"
+              >
+                <span className="text-white/70">{command.label}</span>
+                <button
+                  onClick={() => setListening(command.id)}
+                  className={`min-w-12 px-2 py-1 rounded-md font-mono text-xs border transition ${
+                    listening === command.id
+                      ? 'border-cyan-400/60 bg-cyan-500/20 text-cyan-100 animate-pulse'
+                      : 'border-white/10 bg-black/40 text-white/80 hover:bg-white/10'
+                  }`}
+                >
+                  {listening === command.id ? '…' : formatKey(bindings[command.id])}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <span className="text-white/40 text-xs">Click a key, then press the new one. Esc cancels.</span>
+        <button
+          onClick={onReset}
+          className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 text-sm"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { OUTPOST_COST_LIMITS, RULE_LIMITS } from '../../types/config';
+import type { GameConfig, ScalarRule } from '../../types/config';
+
+interface RulesEditorProps {
+  config: GameConfig;
+  onChange: (config: GameConfig) => void;
+}
+
+const SCALAR_RULES = Object.keys(RULE_LIMITS) as ScalarRule[];
+const OUTPOST_RESOURCES: Array<keyof GameConfig['outpostCost']> = ['wood', 'ore', 'water'];
+
+const INPUT_CLASS =
+  'w-16 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-white/90 text-sm font-mono text-right outline-none focus:border-cyan-400/50';
+
+/** A cleared input reads back as NaN; show it empty rather than "NaN" */
+function fieldValue(value: number): number | string {
+  return Number.isNaN(value) ? '' : value;
+}
+
+/**
+ * Number inputs for every rule of a custom expedition
+ * Values are passed through as typed; the caller checks they are playable.
+ */
+export function RulesEditor({ config, onChange }: RulesEditorProps) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+      {SCALAR_RULES.map(rule => {
+        const { label, min, max } = RULE_LIMITS[rule];
+        return (
+          <label key={rule} className="flex items-center justify-between gap-2 text-white/60">
+            {label}
+            <input
+              type="number"
+              min={min}
+              max={max}
+              value={fieldValue(config[rule])}
+              onChange={event => onChange({ ...config, [rule]: event.target.valueAsNumber })}
+              className={INPUT_CLASS}
+            />
+          </label>
+        );
+      })}
+      {OUTPOST_RESOURCES.map(resource => (
+        <label key={resource} className="flex items-center justify-between gap-2 text-white/60">
+          Outpost {resource}
+          <input
+            type="number"
+            min={OUTPOST_COST_LIMITS.min}
+            max={OUTPOST_COST_LIMITS.max}
+            value={fieldValue(config.outpostCost[resource])}
+            onChange={event =>
+              onChange({
+                ...config,
+                outpostCost: { ...config.outpostCost, [resource]: event.target.valueAsNumber },
+              })
+            }
+            className={INPUT_CLASS}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
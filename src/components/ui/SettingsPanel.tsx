@@ -0,0 +1,137 @@
+import { RENDERERS, SETTING_RANGES } from '../../lib/settings';
+import { TILE_PALETTES } from '../../types/tiles';
+import type { PaletteId } from '../../types/tiles';
+import type { NumericSetting, Settings } from '../../lib/settings';
+import type { RendererKind } from '../../types/game';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+  onReset: () => void;
+}
+
+const RENDERER_LABELS: Record<RendererKind, string> = {
+  svg: 'SVG',
+  canvas: 'Canvas',
+};
+
+const PALETTE_IDS = Object.keys(TILE_PALETTES) as PaletteId[];
+
+function formatSetting(key: NumericSetting, value: number): string {
+  return key === 'zoomSensitivity' ? `${Math.round(value * 100)}%` : `×${value}`;
+}
+
+/**
+ * Every player preference, applied as soon as it changes
+ */
+export function SettingsPanel({ settings, onChange, onReset }: SettingsPanelProps) {
+  const slider = (key: NumericSetting) => {
+    const { label, min, max, step } = SETTING_RANGES[key];
+    return (
+      <label key={key} className="block px-3 py-2 rounded-lg bg-white/5 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-white/70">{label}</span>
+          <span className="text-white/50 font-mono text-xs">{formatSetting(key, settings[key])}</span>
+        </div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={settings[key]}
+          onChange={event => onChange({ [key]: event.target.valueAsNumber })}
+          className="mt-2 w-full accent-cyan-400"
+        />
+      </label>
+    );
+  };
+
+  const toggle = (key: 'reducedMotion' | 'showIcons' | 'patterns', label: string) => (
+    <label className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 text-sm cursor-pointer select-none">
+      <span className="text-white/70">{label}</span>
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={event => onChange({ [key]: event.target.checked })}
+        className="accent-cyan-400"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Camera</div>
+        <div className="space-y-2">
+          {slider('zoomSensitivity')}
+          {slider('minZoom')}
+          {slider('maxZoom')}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Display</div>
+        <div className="space-y-2">
+          {toggle('showIcons', 'Terrain icons')}
+          <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 text-sm">
+            <span className="text-white/70">Default renderer</span>
+            <div className="flex gap-1">
+              {RENDERERS.map(renderer => (
+                <button
+                  key={renderer}
+                  onClick={() => onChange({ defaultRenderer: renderer })}
+                  className={`px-2 py-1 rounded-md text-xs transition ${
+                    settings.defaultRenderer === renderer
+                      ? 'bg-cyan-500/20 text-cyan-100'
+                      : 'bg-black/40 text-white/60 hover:bg-white/10'
+                  }`}
+                >
+                  {RENDERER_LABELS[renderer]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Accessibility</div>
+        <div className="space-y-2">
+          <div className="px-3 py-2 rounded-lg bg-white/5 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-white/70">Colour palette</span>
+              <span className="text-white/40 text-xs">{TILE_PALETTES[settings.palette].description}</span>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {PALETTE_IDS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onChange({ palette: id })}
+                  className={`px-2 py-1 rounded-md text-xs transition ${
+                    settings.palette === id
+                      ? 'bg-cyan-500/20 text-cyan-100'
+                      : 'bg-black/40 text-white/60 hover:bg-white/10'
+                  }`}
+                >
+                  {TILE_PALETTES[id].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {toggle('patterns', 'Pattern fills')}
+          {toggle('reducedMotion', 'Reduced motion')}
+          {slider('toastScale')}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={onReset}
+          className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 text-sm"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { hexesInRadius, hexKey } from '../lib/hexMath';
+import type { GameEvent, GameState } from '../types/game';
+import type { HexTile } from '../types/tiles';
+import { evaluateAchievements } from './achievements';
+import { createGameState } from './gameEngine';
+import { MAX_LOWLAND_ELEVATION, createWorld, generateTile } from './world';
+
+const SEED = 'high-ground';
+const SEARCH_RADIUS = 20;
+
+/** First generated ruins around the origin matching a condition */
+function findRuins(matches: (tile: HexTile) => boolean): HexTile | undefined {
+  const world = createWorld(SEED, 12);
+  return hexesInRadius({ q: 0, r: 0 }, SEARCH_RADIUS)
+    .map(coord => generateTile(coord.q, coord.r, world))
+    .find(tile => tile.type === 'ruins' && matches(tile));
+}
+
+/** A run that has just stepped onto the given tile */
+function arriveAt(tile: HexTile): { state: GameState; events: GameEvent[] } {
+  const state = createGameState(SEED);
+  state.tiles.set(hexKey(tile.q, tile.r), tile);
+  return { state, events: [{ type: 'moved', from: { q: 0, r: 0 }, to: tile, cost: 2 }] };
+}
+
+describe('highGround', () => {
+  it('can be earned on hilltop ruins the world generates', () => {
+    const ruins = findRuins(tile => tile.elevation === MAX_LOWLAND_ELEVATION);
+    expect(ruins).toBeDefined();
+
+    const { state, events } = arriveAt(ruins!);
+    expect(evaluateAchievements(['highGround'], events, state)).toEqual(['highGround']);
+  });
+
+  it('is not earned on lower ruins', () => {
+    const ruins = findRuins(tile => tile.elevation < MAX_LOWLAND_ELEVATION);
+    expect(ruins).toBeDefined();
+
+    const { state, events } = arriveAt(ruins!);
+    expect(evaluateAchievements(['highGround'], events, state)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Achievement rules
+ *
+ * Each achievement is unlocked either by an engine event matching a
+ * condition or by a measurable quantity of the run reaching a target.
+ * Rules are checked after every action against its events and the
+ * resulting state, so no UI code needs to know what unlocks what.
+ */
+
+import { hexKey } from '../lib/hexMath';
+import { MAX_LOWLAND_ELEVATION } from './world';
+import type { AchievementId } from '../types/achievements';
+import type { GameEvent, GameState } from '../types/game';
+
+type EventOf<T extends GameEvent['type']> = Extract<GameEvent, { type: T }>;
+
+type AchievementRule =
+  | { kind: 'event'; matches: (event: GameEvent, state: GameState) => boolean }
+  | { kind: 'progress'; target: number; measure: (state: GameState) => number };
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+function onEvent<T extends GameEvent['type']>(
+  type: T,
+  when: (event: EventOf<T>, state: GameState) => boolean = () => true
+): AchievementRule {
+  return {
+    kind: 'event',
+    matches: (event, state) => event.type === type && when(event as EventOf<T>, state),
+  };
+}
+
+function reach(target: number, measure: (state: GameState) => number): AchievementRule {
+  return { kind: 'progress', target, measure };
+}
+
+const RULES: Record<AchievementId, AchievementRule> = {
+  firstCache: onEvent('gathered', event => event.cache),
+  cartographer: reach(100, state => Array.from(state.tiles.values()).filter(tile => tile.explored).length),
+  restless: onEvent('beaconSecured', (_, state) => state.stats.rests === 0),
+  highGround: onEvent('moved', (event, state) => {
+    const tile = state.tiles.get(hexKey(event.to.q, event.to.r));
+    // Ruins never generate above the mountain line
+    return tile?.type === 'ruins' && tile.elevation >= MAX_LOWLAND_ELEVATION;
+  }),
+  network: reach(3, state => state.outposts.length - 1),
+  relicHunter: reach(5, state => state.stats.relicsFound),
+  cleanser: onEvent('purified'),
+  nightWatch: onEvent('dayPhaseChanged', event => event.phase === 'day'),
+  tinkerer: onEvent('crafted'),
+  wayfarer: reach(100, state => state.stats.hexesTraveled),
+  ironWill: onEvent('beaconSecured', (_, state) => state.hardcore),
+};
+
+/**
+ * Achievements newly earned by an action
+ * Only the ids in `locked` are checked.
+ */
+export function evaluateAchievements(
+  locked: AchievementId[],
+  events: GameEvent[],
+  state: GameState
+): AchievementId[] {
+  return locked.filter(id => {
+    const rule = RULES[id];
+    return rule.kind === 'event'
+      ? events.some(event => rule.matches(event, state))
+      : rule.measure(state) >= rule.target;
+  });
+}
+
+/**
+ * How close a run is to a measurable achievement, or null for event achievements
+ */
+export function achievementProgress(id: AchievementId, state: GameState): AchievementProgress | null {
+  const rule = RULES[id];
+  if (rule.kind === 'event') return null;
+  return { current: Math.min(rule.measure(state), rule.target), target: rule.target };
+}
@@ -0,0 +1,59 @@
+/**
+ * Expedition clock
+ *
+ * Every accepted action takes one hour. Expeditions set out at dawn;
+ * nights are shorter than days but cost vision and stop passive recovery.
+ */
+
+import type { DayPhase } from '../types/game';
+
+/** Hour of day on turn 0 */
+const START_HOUR = 6;
+const HOURS_PER_DAY = 24;
+const DAWN_HOUR = 6;
+const DUSK_HOUR = 20;
+
+/** Sight radius lost after dark */
+export const NIGHT_VISION_PENALTY = 1;
+
+/** Daylight turns between passive regeneration of one energy */
+export const DAYLIGHT_REGEN_INTERVAL = 4;
+
+export interface ClockReading {
+  /** 1-based day of the expedition */
+  day: number;
+  /** Hour of the day, 0-23 */
+  hour: number;
+  phase: DayPhase;
+  /** Turns until the phase changes */
+  turnsUntilChange: number;
+}
+
+function phaseOfHour(hour: number): DayPhase {
+  return hour >= DAWN_HOUR && hour < DUSK_HOUR ? 'day' : 'night';
+}
+
+/**
+ * Day or night on a given turn
+ */
+export function phaseAt(turn: number): DayPhase {
+  return phaseOfHour((START_HOUR + turn) % HOURS_PER_DAY);
+}
+
+/**
+ * Calendar reading for a given turn
+ * Days roll over at dawn, so a night belongs to the day it started on.
+ */
+export function readClock(turn: number): ClockReading {
+  const elapsed = START_HOUR + turn;
+  const hour = elapsed % HOURS_PER_DAY;
+  const phase = phaseOfHour(hour);
+  const nextChange = phase === 'day' ? DUSK_HOUR : DAWN_HOUR;
+
+  return {
+    day: Math.floor((elapsed - DAWN_HOUR) / HOURS_PER_DAY) + 1,
+    hour,
+    phase,
+    turnsUntilChange: (nextChange - hour + HOURS_PER_DAY) % HOURS_PER_DAY,
+  };
+}
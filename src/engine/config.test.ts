@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_PRESETS } from '../types/config';
+import { highGroundBonus } from '../lib/vision';
+import { configProblems } from './config';
+import { MAX_ELEVATION } from './world';
+
+describe('configProblems', () => {
+  it('accepts every preset', () => {
+    Object.values(DIFFICULTY_PRESETS).forEach(config => {
+      expect(configProblems(config)).toEqual([]);
+    });
+  });
+
+  it('requires terrain to be generated as far as a peak can see', () => {
+    const { normal } = DIFFICULTY_PRESETS;
+    const farthestSight = normal.visionRadius + highGroundBonus(MAX_ELEVATION);
+
+    expect(configProblems({ ...normal, generationRadius: farthestSight })).toEqual([]);
+    expect(configProblems({ ...normal, generationRadius: farthestSight - 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Expedition rule checks
+ *
+ * Presets are known to be playable; custom rules are checked here so that
+ * every run can still see its surroundings and reach the beacon.
+ */
+
+import { DIFFICULTY_PRESETS, OUTPOST_COST_LIMITS, RULE_LIMITS } from '../types/config';
+import type { DifficultyId, GameConfig, PresetId, ScalarRule } from '../types/config';
+import { highGroundBonus } from '../lib/vision';
+import { MAX_ENTRY_COST } from './movement';
+import { MAX_ELEVATION } from './world';
+
+const SCALAR_RULES = Object.keys(RULE_LIMITS) as ScalarRule[];
+const OUTPOST_RESOURCES: Array<keyof GameConfig['outpostCost']> = ['wood', 'ore', 'water'];
+
+function inRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Everything wrong with a set of rules, as messages for the player
+ * An empty list means the rules are playable.
+ */
+export function configProblems(config: GameConfig): string[] {
+  const problems: string[] = [];
+
+  SCALAR_RULES.forEach(rule => {
+    const { label, min, max } = RULE_LIMITS[rule];
+    if (!inRange(config[rule], min, max)) {
+      problems.push(`${label} must be a whole number from ${min} to ${max}.`);
+    }
+  });
+  OUTPOST_RESOURCES.forEach(resource => {
+    const { min, max } = OUTPOST_COST_LIMITS;
+    if (!inRange(config.outpostCost[resource], min, max)) {
+      problems.push(`Outpost ${resource} cost must be a whole number from ${min} to ${max}.`);
+    }
+  });
+  if (problems.length > 0) return problems;
+
+  // Sight is only computed over generated terrain, and reaches further from the peaks
+  const farthestSight = config.visionRadius + highGroundBonus(MAX_ELEVATION);
+  if (config.generationRadius < farthestSight) {
+    problems.push(`Generation radius must be at least ${farthestSight}, the vision radius plus the high ground bonus.`);
+  }
+  if (config.beaconRing <= config.generationRadius) {
+    problems.push('The beacon must lie beyond the terrain generated at the start.');
+  }
+  // Resting restores at most the energy cap, so it must cover the dearest step
+  if (config.baseEnergy < MAX_ENTRY_COST) {
+    problems.push(`Energy must be at least ${MAX_ENTRY_COST} or some terrain on the way to the beacon could never be entered.`);
+  }
+
+  return problems;
+}
+
+/**
+ * The preset a set of rules matches, or custom if none does
+ */
+export function difficultyOf(config: GameConfig): DifficultyId {
+  const preset = (Object.keys(DIFFICULTY_PRESETS) as PresetId[]).find(id => {
+    const rules = DIFFICULTY_PRESETS[id];
+    return (
+      SCALAR_RULES.every(rule => rules[rule] === config[rule]) &&
+      OUTPOST_RESOURCES.every(resource => rules.outpostCost[resource] === config.outpostCost[resource])
+    );
+  });
+  return preset ?? 'custom';
+}
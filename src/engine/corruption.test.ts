@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { hexDistance, hexKey, hexesInRadius } from '../lib/hexMath';
+import type { HexCoord } from '../types/game';
+import type { HexTile, TileType } from '../types/tiles';
+import { PURIFY_RADIUS, SIMULATION_RADIUS, spreadCorruption } from './corruption';
+import { generateTile } from './world';
+import type { WorldParams } from './world';
+
+const WORLD: WorldParams = { seed: 0x1234abcd, beacon: { q: 40, r: 0 } };
+const ORIGIN: HexCoord = { q: 0, r: 0 };
+
+/** Enough ticks that every neighbour of a void tile is rolled many times */
+const TICKS = 60;
+
+/** Temperate plains around the origin, with the given terrain placed on top */
+function flatland(features: Array<[HexCoord, TileType]>): Map<string, HexTile> {
+  const tiles = new Map<string, HexTile>();
+  hexesInRadius(ORIGIN, SIMULATION_RADIUS + 4).forEach(({ q, r }) => {
+    tiles.set(hexKey(q, r), { ...generateTile(q, r, WORLD), type: 'plains', biome: 'temperate' });
+  });
+  features.forEach(([{ q, r }, type]) => {
+    tiles.set(hexKey(q, r), { ...tiles.get(hexKey(q, r))!, type });
+  });
+  return tiles;
+}
+
+/** Every tile corrupted over a run of ticks around a center */
+function simulate(tiles: Map<string, HexTile>, center: HexCoord): HexCoord[] {
+  const corrupted: HexCoord[] = [];
+  for (let turn = 0; turn < TICKS; turn++) {
+    corrupted.push(...spreadCorruption(tiles, WORLD, center, turn));
+  }
+  return corrupted;
+}
+
+describe('spreadCorruption', () => {
+  it('spreads the same way for the same seed and turns', () => {
+    const voids: Array<[HexCoord, TileType]> = [[{ q: 2, r: 0 }, 'void'], [{ q: -3, r: 1 }, 'void']];
+    const first = simulate(flatland(voids), ORIGIN);
+    const second = simulate(flatland(voids), ORIGIN);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('only spreads from void tiles within the simulation radius', () => {
+    const far: HexCoord = { q: SIMULATION_RADIUS + 1, r: 0 };
+    const dormant = simulate(flatland([[far, 'void']]), ORIGIN);
+    expect(dormant).toEqual([]);
+
+    // The same void wakes up once the player is close enough
+    const awake = simulate(flatland([[far, 'void']]), { q: 2, r: 0 });
+    expect(awake.length).toBeGreaterThan(0);
+    awake.forEach(coord => expect(hexDistance(coord, far)).toBe(1));
+  });
+
+  it('never corrupts land warded by an outpost', () => {
+    const outpost: HexCoord = { q: 3, r: 0 };
+    const corrupted = simulate(flatland([[{ q: 1, r: 0 }, 'void'], [outpost, 'settlement']]), ORIGIN);
+
+    expect(corrupted.length).toBeGreaterThan(0);
+    corrupted.forEach(coord => expect(hexDistance(coord, outpost)).toBeGreaterThan(PURIFY_RADIUS));
+  });
+});
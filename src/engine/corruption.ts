@@ -0,0 +1,111 @@
+/**
+ * Corruption simulation
+ *
+ * Void tiles seep corruption into their neighbours over time. The spread
+ * is rolled per void tile from the world seed and turn, so a run replays
+ * identically, and only hydrated tiles near the player are simulated so
+ * the cost of a tick stays constant however far the map has grown.
+ */
+
+import { hexDistance, hexKey, hexNeighbors, hexesInRadius } from '../lib/hexMath';
+import { createRandom, hashCoords } from '../lib/random';
+import type { HexTile } from '../types/tiles';
+import type { HexCoord } from '../types/game';
+import { generateTile } from './world';
+import type { WorldParams } from './world';
+
+/** Turns between spread ticks */
+export const CORRUPTION_INTERVAL = 3;
+
+/** Extra energy lost when entering a corrupted tile */
+export const CORRUPTION_DRAIN = 1;
+
+/** Radius cleansed by a relic, and warded around every outpost */
+export const PURIFY_RADIUS = 2;
+
+/** Void tiles further than this from the player are dormant */
+export const SIMULATION_RADIUS = 8;
+
+/** Chance per tick that a void tile corrupts a given neighbour */
+const SPREAD_CHANCE = 0.2;
+
+const CORRUPTION_SALT = 0x7f4a7c15;
+
+function canCorrupt(tile: HexTile | undefined): tile is HexTile {
+  return (
+    tile !== undefined &&
+    tile.biome !== 'corrupted' &&
+    tile.type !== 'void' &&
+    tile.type !== 'settlement' &&
+    tile.type !== 'beacon'
+  );
+}
+
+/**
+ * Advance corruption around the player by one tick
+ * Mutates the given tile map and returns the tiles that were corrupted.
+ */
+export function spreadCorruption(
+  tiles: Map<string, HexTile>,
+  world: WorldParams,
+  center: HexCoord,
+  turn: number
+): HexCoord[] {
+  const area = hexesInRadius(center, SIMULATION_RADIUS + PURIFY_RADIUS);
+  const outposts = area.filter(coord => tiles.get(hexKey(coord.q, coord.r))?.type === 'settlement');
+  const warded = (coord: HexCoord) =>
+    outposts.some(outpost => hexDistance(outpost, coord) <= PURIFY_RADIUS);
+
+  // Decide every conversion against the pre-tick map so iteration order cannot matter
+  const corrupted = new Map<string, HexCoord>();
+  hexesInRadius(center, SIMULATION_RADIUS).forEach(source => {
+    if (tiles.get(hexKey(source.q, source.r))?.type !== 'void') return;
+
+    const random = createRandom(hashCoords(world.seed ^ CORRUPTION_SALT ^ turn, source.q, source.r));
+    hexNeighbors(source.q, source.r).forEach(coord => {
+      const key = hexKey(coord.q, coord.r);
+      if (random() < SPREAD_CHANCE && canCorrupt(tiles.get(key)) && !warded(coord)) {
+        corrupted.set(key, coord);
+      }
+    });
+  });
+
+  corrupted.forEach((_, key) => {
+    tiles.set(key, { ...tiles.get(key)!, biome: 'corrupted' });
+  });
+  return Array.from(corrupted.values());
+}
+
+/**
+ * Restore the natural biome of corrupted tiles around a center
+ * With cleanseVoid, void tiles are reclaimed as plains as well.
+ * Mutates the given tile map and returns how many tiles changed.
+ */
+export function purifyArea(
+  tiles: Map<string, HexTile>,
+  world: WorldParams,
+  center: HexCoord,
+  cleanseVoid: boolean
+): number {
+  let purified = 0;
+
+  hexesInRadius(center, PURIFY_RADIUS).forEach(coord => {
+    const key = hexKey(coord.q, coord.r);
+    const tile = tiles.get(key);
+    if (!tile) return;
+
+    const isVoid = cleanseVoid && tile.type === 'void';
+    if (tile.biome !== 'corrupted' && !isVoid) return;
+
+    // Land that was corrupted from the start recovers as temperate
+    const natural = generateTile(coord.q, coord.r, world).biome;
+    tiles.set(key, {
+      ...tile,
+      type: isVoid ? 'plains' : tile.type,
+      biome: natural === 'corrupted' ? 'temperate' : natural,
+    });
+    purified++;
+  });
+
+  return purified;
+}
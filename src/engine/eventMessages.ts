@@ -0,0 +1,141 @@
+import type { GameEvent, RejectionReason } from '../types/game';
+import type { TileType } from '../types/tiles';
+import { EQUIPMENT } from '../types/equipment';
+import { RECIPES } from '../types/recipes';
+import { PERKS } from '../types/perks';
+
+/**
+ * Player-facing notification for an engine event
+ */
+export interface EventMessage {
+  message: string;
+  duration: number;
+}
+
+const GATHER_MESSAGES: Partial<Record<TileType, string>> = {
+  forest: 'Gathered timber.',
+  water: 'Filled your canteen.',
+  mountain: 'Found ore.',
+  desert: 'Collected sun-baked supplies.',
+  ruins: 'Recovered an ancient relic.',
+  plains: 'Foraged the open plains.',
+};
+
+const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  notAdjacent: 'Choose an adjacent tile.',
+  impassable: 'That terrain is impassable.',
+  exhausted: 'You are too exhausted to move.',
+  noWood: 'You need wood to set up camp.',
+  insufficientResources: 'Not enough resources to build an outpost.',
+  invalidSite: 'An outpost cannot be built there.',
+  noRelic: 'You need a relic to purify the land.',
+  nothingToPurify: 'There is no corruption here to purify.',
+  needsEquipment: 'You lack the equipment to cross that terrain.',
+  notOwned: 'You do not have that item.',
+  invalidSlot: 'That slot cannot be used.',
+  unknownRecipe: 'That recipe is not known.',
+  wrongStation: 'That can only be crafted at an outpost.',
+  alreadyOwned: 'You already have one of those.',
+  alreadyChosen: 'You already have that perk.',
+  noSupplies: 'You have no rations left.',
+  fullEnergy: 'You are already at full energy.',
+  notAtOutpost: 'You need to be at an outpost.',
+  storageFull: 'The outpost cannot store that much.',
+  notConnected: 'That outpost is not linked to this one.',
+};
+
+function rejectionMessage(event: Extract<GameEvent, { type: 'rejected' }>): string {
+  if (event.action === 'pulse' && event.reason === 'exhausted') {
+    return 'Not enough energy to pulse.';
+  }
+  if (event.action === 'buildOutpost' && event.reason === 'notAdjacent') {
+    return 'Choose an adjacent tile to build.';
+  }
+  if (event.action === 'deposit' && event.reason === 'insufficientResources') {
+    return 'You are not carrying that much.';
+  }
+  if (event.action === 'withdraw' && event.reason === 'insufficientResources') {
+    return 'The outpost does not hold that much.';
+  }
+  if (event.action === 'fastTravel' && event.reason === 'exhausted') {
+    return 'Not enough energy to travel.';
+  }
+  if (event.action === 'choosePerk' && event.reason === 'noRelic') {
+    return 'You need more relics to gain a perk.';
+  }
+  if (event.action === 'craft' && event.reason === 'insufficientResources') {
+    return 'Not enough resources to craft that.';
+  }
+  if (event.requires) {
+    return `You need the ${EQUIPMENT[event.requires].label.toLowerCase()} equipped to go there.`;
+  }
+  return REJECTION_MESSAGES[event.reason];
+}
+
+/**
+ * Describe an engine event as a toast, or null if it should stay silent
+ */
+export function describeEvent(event: GameEvent): EventMessage | null {
+  switch (event.type) {
+    case 'rejected':
+      return { message: rejectionMessage(event), duration: 1600 };
+    case 'gathered': {
+      const message = event.cache ? 'Discovered a hidden cache.' : GATHER_MESSAGES[event.tileType];
+      return message ? { message, duration: 1800 } : null;
+    }
+    case 'pulsed':
+      return { message: 'Pulse reveals nearby anomalies.', duration: 1600 };
+    case 'rested':
+      return {
+        message: event.atOutpost ? 'Rested at the outpost.' : 'Campfire restores your energy.',
+        duration: 1600,
+      };
+    case 'outpostBuilt':
+      return { message: `Outpost ${event.name} established.`, duration: 1800 };
+    case 'deposited':
+      return { message: `Stored resources at ${event.outpost}.`, duration: 1600 };
+    case 'withdrew':
+      return { message: `Collected resources from ${event.outpost}.`, duration: 1600 };
+    case 'fastTraveled':
+      return { message: `Traveled the outpost network for ${event.cost} energy.`, duration: 1800 };
+    case 'beaconSecured':
+      return { message: 'Beacon secured. The expedition is complete.', duration: 2400 };
+    case 'drained':
+      return { message: `Corruption saps ${event.amount} extra energy.`, duration: 1600 };
+    case 'purified':
+      return {
+        message: `Purified ${event.count} ${event.count === 1 ? 'tile' : 'tiles'}.`,
+        duration: 1800,
+      };
+    case 'equipmentFound':
+      return {
+        message: `Found ${EQUIPMENT[event.item].label.toLowerCase()} in the cache${
+          event.equipped ? ' and equipped it' : ''
+        }.`,
+        duration: 2400,
+      };
+    case 'crafted':
+      return { message: `Crafted ${RECIPES[event.recipe].label.toLowerCase()}.`, duration: 1800 };
+    case 'perkChosen':
+      return { message: `The relics grant you ${PERKS[event.perk].label}.`, duration: 2400 };
+    case 'rationEaten':
+      return { message: `Ate a ration. +${event.recovered} energy.`, duration: 1600 };
+    case 'rationsConsumed':
+      return { message: 'Ate the morning ration.', duration: 1800 };
+    case 'hungry':
+      return {
+        message: `No rations left. Hunger costs you ${event.drained} energy.`,
+        duration: 2400,
+      };
+    case 'dayPhaseChanged':
+      return {
+        message:
+          event.phase === 'night'
+            ? 'Night falls. Your sight shortens and energy no longer recovers.'
+            : `Day ${event.day} dawns.`,
+        duration: 2000,
+      };
+    default:
+      return null;
+  }
+}
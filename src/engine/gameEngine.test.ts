@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { hexKey } from '../lib/hexMath';
+import { EQUIPMENT_SLOTS } from '../types/equipment';
+import type { EquipmentId } from '../types/equipment';
+import type { GameState, HexCoord } from '../types/game';
+import type { HexTile, TileType } from '../types/tiles';
+import { CORRUPTION_DRAIN } from './corruption';
+import { applyAction, createGameState } from './gameEngine';
+
+const EAST: HexCoord = { q: 1, r: 0 };
+
+/** A fresh run with the tile east of Base Camp replaced by unexplored terrain */
+function besideCamp(type: TileType, overrides: Partial<HexTile> = {}): GameState {
+  const state = createGameState('reducer-test');
+  state.tiles.set(hexKey(EAST.q, EAST.r), {
+    ...state.tiles.get(hexKey(EAST.q, EAST.r))!,
+    type,
+    biome: 'temperate',
+    explored: false,
+    feature: undefined,
+    featureDiscovered: false,
+    ...overrides,
+  });
+  return state;
+}
+
+/** The same run with a single item owned and equipped */
+function equipped(state: GameState, item: EquipmentId): GameState {
+  const slots = Array.from({ length: EQUIPMENT_SLOTS }, (_, slot) => (slot === 0 ? item : null));
+  return { ...state, equipment: { owned: [item], slots } };
+}
+
+function moveEast(state: GameState) {
+  return applyAction(state, { type: 'move', to: EAST });
+}
+
+describe('applyAction move', () => {
+  it('rejects tiles that are not adjacent', () => {
+    const state = besideCamp('plains');
+    const { state: next, events } = applyAction(state, { type: 'move', to: { q: 2, r: 0 } });
+
+    expect(next).toBe(state);
+    expect(events).toEqual([{ type: 'rejected', action: 'move', reason: 'notAdjacent' }]);
+  });
+
+  it('rejects the void as impassable', () => {
+    const state = besideCamp('void');
+    const { state: next, events } = moveEast(state);
+
+    expect(next).toBe(state);
+    expect(events).toEqual([{ type: 'rejected', action: 'move', reason: 'impassable', requires: undefined }]);
+  });
+
+  it('names the gear needed for gated terrain', () => {
+    const mountain = moveEast(besideCamp('mountain'));
+    const water = moveEast(besideCamp('water'));
+
+    expect(mountain.events).toEqual([
+      { type: 'rejected', action: 'move', reason: 'needsEquipment', requires: 'climbingGear' },
+    ]);
+    expect(water.events).toEqual([
+      { type: 'rejected', action: 'move', reason: 'needsEquipment', requires: 'boat' },
+    ]);
+  });
+
+  it('rejects steps the player cannot afford', () => {
+    const state = besideCamp('forest');
+    const tired = { ...state, player: { ...state.player, energy: 1 } };
+    const { state: next, events } = moveEast(tired);
+
+    expect(next).toBe(tired);
+    expect(events).toEqual([{ type: 'rejected', action: 'move', reason: 'exhausted' }]);
+  });
+
+  it('does not advance the clock for rejected actions', () => {
+    const state = besideCamp('void');
+    const { state: next } = moveEast(state);
+
+    expect(next.turn).toBe(0);
+    expect(next.player).toBe(state.player);
+  });
+
+  it.each<[TileType, number]>([
+    ['plains', 1],
+    ['forest', 2],
+    ['desert', 2],
+    ['ruins', 2],
+  ])('spends the terrain cost entering %s', (type, cost) => {
+    const state = besideCamp(type);
+    const { state: next, events } = moveEast(state);
+
+    expect(next.player.energy).toBe(state.player.energy - cost);
+    expect(next.player.position).toEqual(EAST);
+    expect(next.turn).toBe(1);
+    expect(events[0]).toEqual({ type: 'moved', from: { q: 0, r: 0 }, to: EAST, cost });
+  });
+
+  it('lets gear carry the player over gated terrain', () => {
+    const state = equipped(besideCamp('mountain'), 'climbingGear');
+    const { state: next } = moveEast(state);
+
+    expect(next.player.position).toEqual(EAST);
+    expect(next.player.energy).toBe(state.player.energy - 2);
+  });
+
+  it('drains extra energy on corrupted land', () => {
+    const state = besideCamp('plains', { biome: 'corrupted' });
+    const { state: next, events } = moveEast(state);
+
+    expect(next.player.energy).toBe(state.player.energy - 1 - CORRUPTION_DRAIN);
+    expect(events).toContainEqual({ type: 'drained', amount: CORRUPTION_DRAIN });
+  });
+
+  it('gathers resources the first time a tile is explored', () => {
+    const state = besideCamp('forest');
+    const { state: next, events } = moveEast(state);
+
+    expect(next.inventory.wood).toBe(state.inventory.wood + 1);
+    expect(next.tiles.get(hexKey(EAST.q, EAST.r))?.explored).toBe(true);
+    expect(events).toContainEqual({ type: 'gathered', tileType: 'forest', resources: { wood: 1 }, cache: false });
+
+    const revisit = moveEast(besideCamp('forest', { explored: true }));
+    expect(revisit.state.inventory).toEqual(state.inventory);
+    expect(revisit.events.some(event => event.type === 'gathered')).toBe(false);
+  });
+
+  it('opens caches for supplies and gear only once', () => {
+    const state = besideCamp('plains', { feature: 'cache' });
+    const { state: next, events } = moveEast(state);
+
+    expect(next.inventory.supplies).toBe(state.inventory.supplies + 3);
+    expect(next.equipment.owned).toHaveLength(1);
+    expect(next.tiles.get(hexKey(EAST.q, EAST.r))?.featureDiscovered).toBe(true);
+    expect(events).toContainEqual({ type: 'gathered', tileType: 'plains', resources: { supplies: 3 }, cache: true });
+    expect(events.some(event => event.type === 'equipmentFound')).toBe(true);
+
+    const emptied = moveEast(besideCamp('plains', { feature: 'cache', featureDiscovered: true, explored: true }));
+    expect(emptied.state.inventory).toEqual(state.inventory);
+    expect(emptied.state.equipment.owned).toEqual([]);
+  });
+
+  it('wins the expedition on reaching the beacon', () => {
+    const state = besideCamp('beacon', { feature: 'beacon' });
+    const { state: next, events } = moveEast(state);
+
+    expect(next.hasWon).toBe(true);
+    expect(events).toContainEqual({ type: 'beaconSecured', at: EAST });
+  });
+});
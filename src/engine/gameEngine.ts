@@ -0,0 +1,787 @@
+/**
+ * Headless game engine
+ *
+ * All expedition rules live here as pure functions over GameState.
+ * The UI dispatches GameActions and renders the returned state; the
+ * emitted GameEvents describe what happened so callers can react
+ * (toasts, sounds, achievements) without re-deriving the rules.
+ */
+
+import { hexKey, hexesInRadius, hexDistance } from '../lib/hexMath';
+import { hashCoords, hashString } from '../lib/random';
+import { computeFieldOfView } from '../lib/vision';
+import type { SightProfile } from '../lib/vision';
+import type { HexTile, TileType } from '../types/tiles';
+import { EQUIPMENT, EQUIPMENT_SLOTS } from '../types/equipment';
+import type { EquipmentId, EquipmentState } from '../types/equipment';
+import { RECIPES } from '../types/recipes';
+import type { RecipeId } from '../types/recipes';
+import type { PerkId } from '../types/perks';
+import { DEFAULT_CONFIG } from '../types/config';
+import type { GameConfig } from '../types/config';
+import type {
+  ActionResult,
+  GameAction,
+  GameEvent,
+  GameState,
+  HexCoord,
+  InventoryState,
+  RejectionReason,
+} from '../types/game';
+import { createWorld, generateTile } from './world';
+import type { WorldParams } from './world';
+import { DAYLIGHT_REGEN_INTERVAL, NIGHT_VISION_PENALTY, phaseAt, readClock } from './clock';
+import { CORRUPTION_INTERVAL, purifyArea, spreadCorruption } from './corruption';
+import { canEnter, entryCost, loadoutOf, requiredEquipment, terrainCost } from './movement';
+import { EMPTY_STATS, tallyStats } from './scoring';
+import {
+  OUTPOST_CAPACITY,
+  PRODUCTION_INTERVAL,
+  connectedOutposts,
+  createOutpost,
+  outpostAt,
+  produceResources,
+  travelFee,
+} from './outposts';
+
+export const PURIFY_COST = 1;
+
+/** Relics spent on one permanent perk */
+export const PERK_COST = 2;
+export const WIDE_PULSE_BONUS = 2;
+export const DEEP_RESERVES_BONUS = 4;
+
+/** Energy restored by eating one ration (a unit of supplies) */
+export const RATION_ENERGY = 3;
+/** Rations eaten each dawn, and the energy lost when there are none */
+export const DAILY_RATIONS = 1;
+export const HUNGER_DRAIN = 2;
+
+const ORIGIN: HexCoord = { q: 0, r: 0 };
+
+/**
+ * Expeditions set out without gear, carrying enough to craft either
+ * climbing gear or a boat at Base Camp but not both
+ */
+const STARTING_STORES: InventoryState = { wood: 4, water: 0, ore: 0, relics: 0, supplies: 3 };
+
+const EQUIPMENT_SALT = 0x3c6ef372;
+
+/** Obstruction above ground level for terrain that hides what lies behind it */
+const SIGHT_COVER: Partial<Record<TileType, number>> = {
+  forest: 2,
+};
+
+/**
+ * Look up a tile, generating it if it has not been hydrated yet
+ */
+export function getTile(state: GameState, coord: HexCoord): HexTile {
+  return (
+    state.tiles.get(hexKey(coord.q, coord.r)) ??
+    generateTile(coord.q, coord.r, worldOf(state))
+  );
+}
+
+/**
+ * World generation parameters for an existing expedition
+ */
+export function worldOf(state: GameState): WorldParams {
+  return { seed: hashString(state.seed), beacon: state.beacon };
+}
+
+/**
+ * Sight radius on the current turn, shortened after dark unless carrying a lantern
+ */
+export function visionRadius(state: GameState): number {
+  const darkened = phaseAt(state.turn) === 'night' && !loadoutOf(state).gear.has('lantern');
+  const { visionRadius } = state.config;
+  return darkened ? visionRadius - NIGHT_VISION_PENALTY : visionRadius;
+}
+
+/**
+ * Radius revealed by a pulse scan, widened by the Wide Pulse perk
+ */
+export function pulseRadius(state: GameState): number {
+  const { pulseRadius } = state.config;
+  return state.perks.includes('widePulse') ? pulseRadius + WIDE_PULSE_BONUS : pulseRadius;
+}
+
+function sightProfile(tile: HexTile | undefined): SightProfile | undefined {
+  return tile && { elevation: tile.elevation, cover: SIGHT_COVER[tile.type] ?? 0 };
+}
+
+/**
+ * Generate tiles around a center and reveal those in line of sight
+ */
+function hydrateTiles(
+  tiles: Map<string, HexTile>,
+  world: WorldParams,
+  center: HexCoord,
+  radius: number,
+  visionRadius: number
+): void {
+  hexesInRadius(center, radius).forEach(coord => {
+    const key = hexKey(coord.q, coord.r);
+    if (!tiles.has(key)) tiles.set(key, generateTile(coord.q, coord.r, world));
+  });
+
+  const visible = computeFieldOfView(center, visionRadius, coord =>
+    sightProfile(tiles.get(hexKey(coord.q, coord.r)))
+  );
+
+  hexesInRadius(center, radius).forEach(coord => {
+    const key = hexKey(coord.q, coord.r);
+    const existing = tiles.get(key)!;
+    const revealed = existing.revealed || visible.has(key);
+    const explored = existing.explored || hexDistance(center, coord) === 0;
+    if (revealed !== existing.revealed || explored !== existing.explored) {
+      tiles.set(key, { ...existing, revealed, explored });
+    }
+  });
+}
+
+export interface NewGameOptions {
+  hardcore?: boolean;
+  config?: GameConfig;
+}
+
+/**
+ * Create a fresh expedition at the origin outpost
+ * The same seed always produces the same map and beacon location
+ */
+export function createGameState(
+  seed: string,
+  { hardcore = false, config = DEFAULT_CONFIG }: NewGameOptions = {}
+): GameState {
+  const world = createWorld(seed, config.beaconRing);
+  const tiles = new Map<string, HexTile>();
+  hydrateTiles(tiles, world, ORIGIN, config.generationRadius, config.visionRadius);
+
+  return {
+    seed,
+    tiles,
+    beacon: world.beacon,
+    hasWon: false,
+    hardcore,
+    config,
+    turn: 0,
+    player: {
+      position: ORIGIN,
+      energy: config.baseEnergy,
+      maxEnergy: config.baseEnergy,
+    },
+    inventory: STARTING_STORES,
+    equipment: {
+      owned: [],
+      slots: Array.from({ length: EQUIPMENT_SLOTS }, () => null),
+    },
+    perks: [],
+    outposts: [createOutpost(world.seed, ORIGIN, 0)],
+    stats: EMPTY_STATS,
+  };
+}
+
+/**
+ * Beacon signal strength (0-100) at the player's position
+ */
+export function signalStrength(state: GameState): number {
+  const distance = hexDistance(state.player.position, state.beacon);
+  return Math.max(0, Math.round(100 - distance * 6));
+}
+
+/**
+ * Resources granted the first time a tile is explored
+ */
+function explorationReward(tile: HexTile): Partial<InventoryState> {
+  const resources: Partial<InventoryState> = {};
+
+  switch (tile.type) {
+    case 'forest':
+      resources.wood = 1;
+      break;
+    case 'water':
+      resources.water = 1;
+      break;
+    case 'mountain':
+      resources.ore = 1;
+      break;
+    case 'desert':
+    case 'plains':
+      resources.supplies = 1;
+      break;
+    case 'ruins':
+      resources.relics = 1;
+      break;
+    default:
+      break;
+  }
+
+  if (tile.feature === 'cache' && !tile.featureDiscovered) {
+    resources.supplies = (resources.supplies ?? 0) + 2;
+  }
+
+  return resources;
+}
+
+function addResources(inventory: InventoryState, resources: Partial<InventoryState>): InventoryState {
+  return {
+    wood: inventory.wood + (resources.wood ?? 0),
+    water: inventory.water + (resources.water ?? 0),
+    ore: inventory.ore + (resources.ore ?? 0),
+    relics: inventory.relics + (resources.relics ?? 0),
+    supplies: inventory.supplies + (resources.supplies ?? 0),
+  };
+}
+
+/**
+ * Check whether an outpost can be built on the target tile
+ * Returns the reason it cannot, or null if the build is allowed
+ */
+export function outpostRejection(state: GameState, target: HexCoord): RejectionReason | null {
+  if (hexDistance(state.player.position, target) !== 1) return 'notAdjacent';
+
+  const tile = state.tiles.get(hexKey(target.q, target.r));
+  if (!tile || !canEnter(tile, loadoutOf(state))) return 'invalidSite';
+  if (tile.type === 'settlement' || tile.type === 'beacon') return 'invalidSite';
+
+  const { inventory } = state;
+  const cost = state.config.outpostCost;
+  if (inventory.wood < cost.wood || inventory.ore < cost.ore || inventory.water < cost.water) {
+    return 'insufficientResources';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether resources can be moved between the pack and the outpost underfoot
+ * Returns the reason they cannot, or null if the transfer is allowed
+ */
+export function storageRejection(
+  state: GameState,
+  direction: 'deposit' | 'withdraw',
+  resources: Partial<InventoryState>
+): RejectionReason | null {
+  const outpost = outpostAt(state.outposts, state.player.position);
+  if (!outpost) return 'notAtOutpost';
+
+  const amounts = resourceAmounts(resources);
+  if (amounts.length === 0) return 'insufficientResources';
+
+  const source = direction === 'deposit' ? state.inventory : outpost.stock;
+  if (amounts.some(([resource, amount]) => source[resource] < amount)) return 'insufficientResources';
+
+  const overflows = amounts.some(
+    ([resource, amount]) => outpost.stock[resource] + amount > OUTPOST_CAPACITY
+  );
+  return direction === 'deposit' && overflows ? 'storageFull' : null;
+}
+
+/**
+ * Check whether the player can fast travel to another outpost
+ * Returns the reason they cannot, or null if the trip is allowed
+ */
+export function fastTravelRejection(state: GameState, to: HexCoord): RejectionReason | null {
+  const { player } = state;
+  if (!outpostAt(state.outposts, player.position)) return 'notAtOutpost';
+  if (!outpostAt(connectedOutposts(state.outposts, player.position), to)) return 'notConnected';
+  if (player.energy < travelFee(player.position, to)) return 'exhausted';
+  return null;
+}
+
+/**
+ * Check whether a recipe can be crafted right now
+ * Returns the reason it cannot, or null if the craft is allowed
+ */
+export function craftRejection(state: GameState, recipeId: RecipeId): RejectionReason | null {
+  const recipe = RECIPES[recipeId];
+  if (!recipe) return 'unknownRecipe';
+
+  if (recipe.station && getTile(state, state.player.position).type !== recipe.station) {
+    return 'wrongStation';
+  }
+  if (recipe.outputs.equipment && state.equipment.owned.includes(recipe.outputs.equipment)) {
+    return 'alreadyOwned';
+  }
+
+  const { inventory } = state;
+  const affordable = (Object.keys(recipe.inputs) as Array<keyof InventoryState>).every(
+    resource => inventory[resource] >= (recipe.inputs[resource] ?? 0)
+  );
+  return affordable ? null : 'insufficientResources';
+}
+
+/**
+ * Positive whole amounts in a resource bundle
+ */
+function resourceAmounts(resources: Partial<InventoryState>): Array<[keyof InventoryState, number]> {
+  return (Object.keys(resources) as Array<keyof InventoryState>)
+    .map(resource => [resource, resources[resource] ?? 0] as [keyof InventoryState, number])
+    .filter(([, amount]) => Number.isInteger(amount) && amount > 0);
+}
+
+function negate(resources: Partial<InventoryState>): Partial<InventoryState> {
+  return Object.fromEntries(resourceAmounts(resources).map(([resource, amount]) => [resource, -amount]));
+}
+
+function reject(state: GameState, action: GameAction, reason: RejectionReason): ActionResult {
+  return { state, events: [{ type: 'rejected', action: action.type, reason }] };
+}
+
+/**
+ * Pick the gear hidden in a cache from whatever the player does not own yet
+ */
+function cacheEquipment(state: GameState, cache: HexTile): EquipmentId | null {
+  const missing = (Object.keys(EQUIPMENT) as EquipmentId[]).filter(
+    item => !state.equipment.owned.includes(item)
+  );
+  if (missing.length === 0) return null;
+  const roll = hashCoords(worldOf(state).seed ^ EQUIPMENT_SALT, cache.q, cache.r);
+  return missing[roll % missing.length];
+}
+
+/**
+ * Add a found item to the pack, equipping it if a slot is free
+ */
+function stowEquipment(equipment: EquipmentState, item: EquipmentId): EquipmentState {
+  const free = equipment.slots.indexOf(null);
+  return {
+    owned: [...equipment.owned, item],
+    slots: free >= 0 ? equipment.slots.map((slot, index) => (index === free ? item : slot)) : equipment.slots,
+  };
+}
+
+function applyMove(state: GameState, action: Extract<GameAction, { type: 'move' }>): ActionResult {
+  const { player } = state;
+  const to = action.to;
+
+  if (hexDistance(player.position, to) !== 1) return reject(state, action, 'notAdjacent');
+
+  const target = getTile(state, to);
+  const cost = entryCost(target, loadoutOf(state));
+  if (cost === null) {
+    const requires = requiredEquipment(target) ?? undefined;
+    return {
+      state,
+      events: [
+        {
+          type: 'rejected',
+          action: action.type,
+          reason: requires ? 'needsEquipment' : 'impassable',
+          requires,
+        },
+      ],
+    };
+  }
+  if (player.energy < cost) return reject(state, action, 'exhausted');
+
+  const events: GameEvent[] = [{ type: 'moved', from: player.position, to, cost }];
+  const baseCost = terrainCost(target, loadoutOf(state));
+  if (cost > baseCost) events.push({ type: 'drained', amount: cost - baseCost });
+  const tiles = new Map(state.tiles);
+  let inventory = state.inventory;
+  let equipment = state.equipment;
+  let hasWon = state.hasWon;
+
+  if (target.feature === 'cache' && !target.featureDiscovered) {
+    const found = cacheEquipment(state, target);
+    if (found) {
+      equipment = stowEquipment(equipment, found);
+      events.push({ type: 'equipmentFound', item: found, equipped: equipment.slots.includes(found) });
+    }
+  }
+
+  if (!target.explored) {
+    const resources = explorationReward(target);
+    if (Object.keys(resources).length > 0) {
+      inventory = addResources(inventory, resources);
+      events.push({
+        type: 'gathered',
+        tileType: target.type,
+        resources,
+        cache: target.feature === 'cache' && !target.featureDiscovered,
+      });
+    }
+  }
+
+  tiles.set(hexKey(to.q, to.r), {
+    ...target,
+    revealed: true,
+    explored: true,
+    featureDiscovered:
+      target.feature === 'cache' || target.type === 'beacon' ? true : target.featureDiscovered,
+  });
+  hydrateTiles(tiles, worldOf(state), to, state.config.generationRadius, visionRadius(state));
+
+  if (target.type === 'beacon' && !hasWon) {
+    hasWon = true;
+    events.push({ type: 'beaconSecured', at: to });
+  }
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      inventory,
+      equipment,
+      hasWon,
+      player: {
+        ...player,
+        position: to,
+        energy: Math.max(player.energy - cost, 0),
+      },
+    },
+    events,
+  };
+}
+
+function applyPulse(state: GameState, action: GameAction): ActionResult {
+  const { player } = state;
+  const { pulseCost } = state.config;
+  if (player.energy < pulseCost) return reject(state, action, 'exhausted');
+
+  const tiles = new Map(state.tiles);
+  const world = worldOf(state);
+  const radius = pulseRadius(state);
+  hexesInRadius(player.position, radius).forEach(coord => {
+    const key = hexKey(coord.q, coord.r);
+    const existing = tiles.get(key) ?? generateTile(coord.q, coord.r, world);
+    tiles.set(key, { ...existing, revealed: true });
+  });
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      player: { ...player, energy: Math.max(player.energy - pulseCost, 0) },
+    },
+    events: [{ type: 'pulsed', center: player.position, radius }],
+  };
+}
+
+function applyRest(state: GameState, action: GameAction): ActionResult {
+  const { player, inventory } = state;
+  const current = state.tiles.get(hexKey(player.position.q, player.position.r));
+
+  if (current?.type === 'settlement') {
+    return {
+      state: { ...state, player: { ...player, energy: player.maxEnergy } },
+      events: [{ type: 'rested', atOutpost: true, recovered: player.maxEnergy - player.energy }],
+    };
+  }
+
+  if (inventory.wood < 1) return reject(state, action, 'noWood');
+
+  const energy = Math.min(player.energy + state.config.campRecovery, player.maxEnergy);
+  return {
+    state: {
+      ...state,
+      inventory: { ...inventory, wood: inventory.wood - 1 },
+      player: { ...player, energy },
+    },
+    events: [{ type: 'rested', atOutpost: false, recovered: energy - player.energy }],
+  };
+}
+
+function applyBuildOutpost(
+  state: GameState,
+  action: Extract<GameAction, { type: 'buildOutpost' }>
+): ActionResult {
+  const { target } = action;
+  const rejection = outpostRejection(state, target);
+  if (rejection) return reject(state, action, rejection);
+
+  const tiles = new Map(state.tiles);
+  tiles.set(hexKey(target.q, target.r), {
+    ...getTile(state, target),
+    type: 'settlement',
+    revealed: true,
+    explored: true,
+    feature: undefined,
+    featureDiscovered: false,
+  });
+
+  const outpost = createOutpost(worldOf(state).seed, target, state.turn);
+  const events: GameEvent[] = [{ type: 'outpostBuilt', at: target, name: outpost.name }];
+  const purified = purifyArea(tiles, worldOf(state), target, false);
+  if (purified > 0) events.push({ type: 'purified', center: target, count: purified });
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      outposts: [...state.outposts, outpost],
+      inventory: {
+        ...state.inventory,
+        wood: state.inventory.wood - state.config.outpostCost.wood,
+        ore: state.inventory.ore - state.config.outpostCost.ore,
+        water: state.inventory.water - state.config.outpostCost.water,
+      },
+    },
+    events,
+  };
+}
+
+function applyEquip(state: GameState, action: Extract<GameAction, { type: 'equip' }>): ActionResult {
+  const { equipment } = state;
+  const { item, slot } = action;
+  if (!equipment.owned.includes(item)) return reject(state, action, 'notOwned');
+  if (!Number.isInteger(slot) || slot < 0 || slot >= equipment.slots.length) {
+    return reject(state, action, 'invalidSlot');
+  }
+  if (equipment.slots[slot] === item) return reject(state, action, 'invalidSlot');
+
+  // Equipping an item already in another slot moves it
+  const slots = equipment.slots.map((current, index) =>
+    index === slot ? item : current === item ? null : current
+  );
+  return {
+    state: { ...state, equipment: { ...equipment, slots } },
+    events: [{ type: 'equipped', item, slot }],
+  };
+}
+
+function applyUnequip(state: GameState, action: Extract<GameAction, { type: 'unequip' }>): ActionResult {
+  const { equipment } = state;
+  const item = equipment.slots[action.slot];
+  if (!item) return reject(state, action, 'invalidSlot');
+
+  const slots = equipment.slots.map((current, index) => (index === action.slot ? null : current));
+  return {
+    state: { ...state, equipment: { ...equipment, slots } },
+    events: [{ type: 'unequipped', item, slot: action.slot }],
+  };
+}
+
+function applyCraft(state: GameState, action: Extract<GameAction, { type: 'craft' }>): ActionResult {
+  const rejection = craftRejection(state, action.recipe);
+  if (rejection) return reject(state, action, rejection);
+
+  const { inputs, outputs } = RECIPES[action.recipe];
+  const spent: Partial<InventoryState> = {};
+  (Object.keys(inputs) as Array<keyof InventoryState>).forEach(resource => {
+    spent[resource] = -(inputs[resource] ?? 0);
+  });
+
+  const { player } = state;
+  const events: GameEvent[] = [{ type: 'crafted', recipe: action.recipe }];
+  let energy = player.energy;
+  if (outputs.energy) {
+    energy = Math.min(player.maxEnergy, player.energy + outputs.energy);
+    events.push({ type: 'regenerated', amount: energy - player.energy });
+  }
+
+  return {
+    state: {
+      ...state,
+      player: { ...player, energy },
+      inventory: addResources(addResources(state.inventory, spent), outputs.resources ?? {}),
+      equipment: outputs.equipment ? stowEquipment(state.equipment, outputs.equipment) : state.equipment,
+    },
+    events,
+  };
+}
+
+/**
+ * Check whether a perk can be bought with relics right now
+ * Returns the reason it cannot, or null if the perk is available
+ */
+export function perkRejection(state: GameState, perk: PerkId): RejectionReason | null {
+  if (state.perks.includes(perk)) return 'alreadyChosen';
+  if (state.inventory.relics < PERK_COST) return 'noRelic';
+  return null;
+}
+
+function applyChoosePerk(state: GameState, action: Extract<GameAction, { type: 'choosePerk' }>): ActionResult {
+  const rejection = perkRejection(state, action.perk);
+  if (rejection) return reject(state, action, rejection);
+
+  // The other perks are read by the rules they change; this one raises the stored cap
+  const bonus = action.perk === 'deepReserves' ? DEEP_RESERVES_BONUS : 0;
+  const { player, inventory } = state;
+  return {
+    state: {
+      ...state,
+      perks: [...state.perks, action.perk],
+      inventory: { ...inventory, relics: inventory.relics - PERK_COST },
+      player: { ...player, energy: player.energy + bonus, maxEnergy: player.maxEnergy + bonus },
+    },
+    events: [{ type: 'perkChosen', perk: action.perk }],
+  };
+}
+
+function applyEatRation(state: GameState, action: GameAction): ActionResult {
+  const { player, inventory } = state;
+  if (inventory.supplies < 1) return reject(state, action, 'noSupplies');
+  if (player.energy >= player.maxEnergy) return reject(state, action, 'fullEnergy');
+
+  const energy = Math.min(player.energy + RATION_ENERGY, player.maxEnergy);
+  return {
+    state: {
+      ...state,
+      inventory: { ...inventory, supplies: inventory.supplies - 1 },
+      player: { ...player, energy },
+    },
+    events: [{ type: 'rationEaten', recovered: energy - player.energy }],
+  };
+}
+
+function applyStorage(
+  state: GameState,
+  action: Extract<GameAction, { type: 'deposit' | 'withdraw' }>
+): ActionResult {
+  const rejection = storageRejection(state, action.type, action.resources);
+  if (rejection) return reject(state, action, rejection);
+
+  const outpost = outpostAt(state.outposts, state.player.position)!;
+  const moved = Object.fromEntries(resourceAmounts(action.resources));
+  const [toPack, toStock] =
+    action.type === 'deposit' ? [negate(moved), moved] : [moved, negate(moved)];
+
+  return {
+    state: {
+      ...state,
+      inventory: addResources(state.inventory, toPack),
+      outposts: state.outposts.map(current =>
+        current === outpost ? { ...outpost, stock: addResources(outpost.stock, toStock) } : current
+      ),
+    },
+    events: [
+      action.type === 'deposit'
+        ? { type: 'deposited', outpost: outpost.name, resources: moved }
+        : { type: 'withdrew', outpost: outpost.name, resources: moved },
+    ],
+  };
+}
+
+function applyFastTravel(state: GameState, action: Extract<GameAction, { type: 'fastTravel' }>): ActionResult {
+  const rejection = fastTravelRejection(state, action.to);
+  if (rejection) return reject(state, action, rejection);
+
+  const { player } = state;
+  const cost = travelFee(player.position, action.to);
+  const tiles = new Map(state.tiles);
+  hydrateTiles(tiles, worldOf(state), action.to, state.config.generationRadius, visionRadius(state));
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      player: { ...player, position: action.to, energy: player.energy - cost },
+    },
+    events: [{ type: 'fastTraveled', from: player.position, to: action.to, cost }],
+  };
+}
+
+function applyPurify(state: GameState, action: GameAction): ActionResult {
+  const { inventory, player } = state;
+  if (inventory.relics < PURIFY_COST) return reject(state, action, 'noRelic');
+
+  const tiles = new Map(state.tiles);
+  const purified = purifyArea(tiles, worldOf(state), player.position, true);
+  if (purified === 0) return reject(state, action, 'nothingToPurify');
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      inventory: { ...inventory, relics: inventory.relics - PURIFY_COST },
+    },
+    events: [{ type: 'purified', center: player.position, count: purified }],
+  };
+}
+
+/**
+ * Let an hour pass after an accepted action
+ * Daylight slowly restores energy, corruption creeps outward from the void,
+ * outposts harvest their surroundings, and dawn lets the player see the
+ * full radius again and eats the day's rations.
+ */
+function advanceClock({ state, events }: ActionResult): ActionResult {
+  const turn = state.turn + 1;
+  const phase = phaseAt(turn);
+  const nextEvents = [...events];
+  let { player, tiles, inventory, outposts } = state;
+
+  if (phase === 'day' && turn % DAYLIGHT_REGEN_INTERVAL === 0 && player.energy < player.maxEnergy) {
+    player = { ...player, energy: player.energy + 1 };
+    nextEvents.push({ type: 'regenerated', amount: 1 });
+  }
+
+  if (turn % PRODUCTION_INTERVAL === 0) {
+    const production = produceResources(outposts, tiles);
+    outposts = production.outposts;
+    if (production.produced > 0) nextEvents.push({ type: 'outpostsProduced', amount: production.produced });
+  }
+
+  if (turn % CORRUPTION_INTERVAL === 0) {
+    tiles = new Map(tiles);
+    const corrupted = spreadCorruption(tiles, worldOf(state), player.position, turn);
+    if (corrupted.length > 0) nextEvents.push({ type: 'corruptionSpread', tiles: corrupted });
+  }
+
+  if (phase !== phaseAt(state.turn)) {
+    nextEvents.push({ type: 'dayPhaseChanged', phase, day: readClock(turn).day });
+    if (phase === 'day') {
+      tiles = new Map(tiles);
+      const { generationRadius, visionRadius } = state.config;
+      hydrateTiles(tiles, worldOf(state), player.position, generationRadius, visionRadius);
+
+      const eaten = Math.min(inventory.supplies, DAILY_RATIONS);
+      if (eaten > 0) {
+        inventory = { ...inventory, supplies: inventory.supplies - eaten };
+        nextEvents.push({ type: 'rationsConsumed', amount: eaten });
+      }
+      if (eaten < DAILY_RATIONS) {
+        const drained = Math.min(player.energy, HUNGER_DRAIN);
+        player = { ...player, energy: player.energy - drained };
+        nextEvents.push({ type: 'hungry', drained });
+      }
+    }
+  }
+
+  return { state: { ...state, turn, player, tiles, inventory, outposts }, events: nextEvents };
+}
+
+function applyRules(state: GameState, action: GameAction): ActionResult {
+  switch (action.type) {
+    case 'move':
+      return applyMove(state, action);
+    case 'pulse':
+      return applyPulse(state, action);
+    case 'rest':
+      return applyRest(state, action);
+    case 'buildOutpost':
+      return applyBuildOutpost(state, action);
+    case 'purify':
+      return applyPurify(state, action);
+    case 'equip':
+      return applyEquip(state, action);
+    case 'unequip':
+      return applyUnequip(state, action);
+    case 'craft':
+      return applyCraft(state, action);
+    case 'choosePerk':
+      return applyChoosePerk(state, action);
+    case 'eatRation':
+      return applyEatRation(state, action);
+    case 'deposit':
+    case 'withdraw':
+      return applyStorage(state, action);
+    case 'fastTravel':
+      return applyFastTravel(state, action);
+  }
+}
+
+/**
+ * Apply a player action and return the next state with the events it produced
+ * Never mutates the input state; rejected actions return it unchanged and take no time
+ */
+export function applyAction(state: GameState, action: GameAction): ActionResult {
+  const result = applyRules(state, action);
+  if (result.state === state) return result;
+
+  const spent = Math.max(0, state.player.energy - result.state.player.energy);
+  const stats = tallyStats(state.stats, spent, result.events);
+  return advanceClock({ ...result, state: { ...result.state, stats } });
+}
@@ -0,0 +1,162 @@
+/**
+ * Reversible action history
+ *
+ * Each applied action is stored as a diff of the state it changed rather
+ * than a full snapshot, so long expeditions stay cheap to keep undoable.
+ * Unchanged tiles are shared between states, so comparing references
+ * is enough to find what an action touched.
+ */
+
+import type { HexTile } from '../types/tiles';
+import { EQUIPMENT } from '../types/equipment';
+import type { EquipmentState } from '../types/equipment';
+import { RECIPES } from '../types/recipes';
+import { PERKS } from '../types/perks';
+import type { PerkId } from '../types/perks';
+import type {
+  GameAction,
+  GameEvent,
+  GameState,
+  InventoryState,
+  Outpost,
+  PlayerState,
+  RunStats,
+} from '../types/game';
+
+interface Change<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * Everything an action changed, in both directions
+ */
+export interface StateDiff {
+  tiles: Array<Change<HexTile | undefined> & { key: string }>;
+  player: Change<PlayerState>;
+  inventory: Change<InventoryState>;
+  hasWon: Change<boolean>;
+  turn: Change<number>;
+  equipment: Change<EquipmentState>;
+  perks: Change<PerkId[]>;
+  outposts: Change<Outpost[]>;
+  stats: Change<RunStats>;
+}
+
+/**
+ * A recorded action and the changes it made
+ */
+export interface HistoryEntry {
+  id: number;
+  action: GameAction;
+  events: GameEvent[];
+  diff: StateDiff;
+}
+
+/**
+ * Record the difference between two successive states
+ */
+export function diffStates(before: GameState, after: GameState): StateDiff {
+  const tiles: StateDiff['tiles'] = [];
+
+  after.tiles.forEach((tile, key) => {
+    const previous = before.tiles.get(key);
+    if (previous !== tile) tiles.push({ key, before: previous, after: tile });
+  });
+  before.tiles.forEach((tile, key) => {
+    if (!after.tiles.has(key)) tiles.push({ key, before: tile, after: undefined });
+  });
+
+  return {
+    tiles,
+    player: { before: before.player, after: after.player },
+    inventory: { before: before.inventory, after: after.inventory },
+    hasWon: { before: before.hasWon, after: after.hasWon },
+    turn: { before: before.turn, after: after.turn },
+    equipment: { before: before.equipment, after: after.equipment },
+    perks: { before: before.perks, after: after.perks },
+    outposts: { before: before.outposts, after: after.outposts },
+    stats: { before: before.stats, after: after.stats },
+  };
+}
+
+function applySide(state: GameState, diff: StateDiff, side: 'before' | 'after'): GameState {
+  const tiles = new Map(state.tiles);
+  diff.tiles.forEach(change => {
+    const tile = change[side];
+    if (tile) tiles.set(change.key, tile);
+    else tiles.delete(change.key);
+  });
+
+  return {
+    ...state,
+    tiles,
+    player: diff.player[side],
+    inventory: diff.inventory[side],
+    hasWon: diff.hasWon[side],
+    turn: diff.turn[side],
+    equipment: diff.equipment[side],
+    perks: diff.perks[side],
+    outposts: diff.outposts[side],
+    stats: diff.stats[side],
+  };
+}
+
+/**
+ * Roll a state back to before the diff was applied
+ */
+export function revertDiff(state: GameState, diff: StateDiff): GameState {
+  return applySide(state, diff, 'before');
+}
+
+/**
+ * Re-apply a previously reverted diff
+ */
+export function reapplyDiff(state: GameState, diff: StateDiff): GameState {
+  return applySide(state, diff, 'after');
+}
+
+/**
+ * Short label for the history list
+ */
+export function describeHistoryEntry(entry: HistoryEntry): string {
+  const { player } = entry.diff;
+  return describeAction(entry.action, player.after.energy - player.before.energy);
+}
+
+/**
+ * Short label for an applied action, shared by the history list and replays
+ * The energy change is appended when it is known and non-zero.
+ */
+export function describeAction(action: GameAction, energyChange = 0): string {
+  const energy = energyChange === 0 ? '' : ` (${energyChange > 0 ? '+' : ''}${energyChange}⚡)`;
+
+  switch (action.type) {
+    case 'move':
+      return `Moved to ${action.to.q}, ${action.to.r}${energy}`;
+    case 'pulse':
+      return `Pulse scan${energy}`;
+    case 'rest':
+      return `Rested${energy}`;
+    case 'buildOutpost':
+      return `Built outpost at ${action.target.q}, ${action.target.r}`;
+    case 'purify':
+      return 'Purified with a relic';
+    case 'equip':
+      return `Equipped ${EQUIPMENT[action.item].label}`;
+    case 'unequip':
+      return `Unequipped slot ${action.slot + 1}`;
+    case 'craft':
+      return `Crafted ${RECIPES[action.recipe].label}${energy}`;
+    case 'choosePerk':
+      return `Gained perk: ${PERKS[action.perk].label}`;
+    case 'eatRation':
+      return `Ate a ration${energy}`;
+    case 'deposit':
+      return 'Deposited at the outpost';
+    case 'withdraw':
+      return 'Collected from the outpost';
+    case 'fastTravel':
+      return `Traveled to ${action.to.q}, ${action.to.r}${energy}`;
+  }
+}
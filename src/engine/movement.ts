@@ -0,0 +1,87 @@
+/**
+ * Terrain movement rules
+ *
+ * Tiles only describe terrain; whether the player can enter one and what
+ * it costs depends on their equipped gear and perks, so both are evaluated
+ * here against the current loadout instead of being stored on the tile.
+ */
+
+import type { HexTile, TileType } from '../types/tiles';
+import type { EquipmentId } from '../types/equipment';
+import type { PerkId } from '../types/perks';
+import type { GameState } from '../types/game';
+import { CORRUPTION_DRAIN } from './corruption';
+
+export interface Loadout {
+  gear: ReadonlySet<EquipmentId>;
+  perks: ReadonlySet<PerkId>;
+}
+
+/** Base cost of entering each terrain; anything not listed costs 1 */
+const TERRAIN_COSTS: Partial<Record<TileType, number>> = {
+  forest: 2,
+  desert: 2,
+  ruins: 2,
+};
+
+/** Terrain that can only be entered with the right equipment, and its cost once equipped */
+const GATED_TERRAIN: Partial<Record<TileType, { requires: EquipmentId; cost: number }>> = {
+  mountain: { requires: 'climbingGear', cost: 2 },
+  water: { requires: 'boat', cost: 2 },
+};
+
+/** Terrain made cheaper by a perk, and its cost once the perk is chosen */
+const PERK_TERRAIN: Partial<Record<TileType, { perk: PerkId; cost: number }>> = {
+  desert: { perk: 'duneStrider', cost: 1 },
+};
+
+/** Most energy a single step can cost: the dearest terrain, corrupted */
+export const MAX_ENTRY_COST =
+  Math.max(
+    ...Object.values(TERRAIN_COSTS),
+    ...Object.values(GATED_TERRAIN).map(gate => gate.cost)
+  ) + CORRUPTION_DRAIN;
+
+/**
+ * Items currently equipped by the player and the perks they have chosen
+ */
+export function loadoutOf(state: GameState): Loadout {
+  return {
+    gear: new Set(state.equipment.slots.filter(item => item !== null)),
+    perks: new Set(state.perks),
+  };
+}
+
+/**
+ * Equipment the player would need to enter a tile, if any
+ */
+export function requiredEquipment(tile: HexTile): EquipmentId | null {
+  return GATED_TERRAIN[tile.type]?.requires ?? null;
+}
+
+/**
+ * Whether the loadout allows entering a tile
+ */
+export function canEnter(tile: HexTile, loadout: Loadout): boolean {
+  if (tile.type === 'void') return false;
+  const required = requiredEquipment(tile);
+  return required === null || loadout.gear.has(required);
+}
+
+/**
+ * Terrain cost of entering a tile, ignoring corruption
+ */
+export function terrainCost(tile: HexTile, loadout: Loadout): number {
+  const perk = PERK_TERRAIN[tile.type];
+  if (perk && loadout.perks.has(perk.perk)) return perk.cost;
+  return GATED_TERRAIN[tile.type]?.cost ?? TERRAIN_COSTS[tile.type] ?? 1;
+}
+
+/**
+ * Energy spent entering a tile, or null if the loadout cannot enter it
+ * Corrupted land drains extra energy on top of the terrain cost.
+ */
+export function entryCost(tile: HexTile, loadout: Loadout): number | null {
+  if (!canEnter(tile, loadout)) return null;
+  return terrainCost(tile, loadout) + (tile.biome === 'corrupted' ? CORRUPTION_DRAIN : 0);
+}
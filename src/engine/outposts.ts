@@ -0,0 +1,142 @@
+/**
+ * Outpost network
+ *
+ * Every settlement the player holds is tracked as a named outpost with its
+ * own storage. Outposts slowly harvest the terrain around them, and
+ * outposts close enough to each other form a network the player can
+ * travel across for a fee.
+ */
+
+import { hexDistance, hexKey, hexNeighbors } from '../lib/hexMath';
+import { hashCoords } from '../lib/random';
+import type { HexTile, TileType } from '../types/tiles';
+import type { HexCoord, InventoryState, Outpost } from '../types/game';
+
+/** Turns between production ticks */
+export const PRODUCTION_INTERVAL = 6;
+
+/** Most of each resource a single outpost can store */
+export const OUTPOST_CAPACITY = 10;
+
+/** Outposts within this many hexes of each other are linked */
+export const LINK_RANGE = 10;
+
+/** Fast travel costs a flat fee plus one energy per this many hexes */
+const TRAVEL_FEE = 1;
+const HEXES_PER_ENERGY = 4;
+
+/** What an adjacent tile of each terrain adds to an outpost every tick */
+const TERRAIN_YIELDS: Partial<Record<TileType, keyof InventoryState>> = {
+  forest: 'wood',
+  water: 'water',
+  mountain: 'ore',
+  plains: 'supplies',
+  desert: 'supplies',
+};
+
+const NAME_SALT = 0x51ed270b;
+const NAME_PREFIXES = ['Amber', 'Cinder', 'Ember', 'Frost', 'Gale', 'Hollow', 'Iron', 'Lumen', 'Mist', 'Raven', 'Salt', 'Thorn'];
+const NAME_SUFFIXES = ['Reach', 'Watch', 'Hold', 'Rest', 'Point', 'Haven', 'Ford', 'Spire'];
+
+export const EMPTY_STOCK: InventoryState = { wood: 0, water: 0, ore: 0, relics: 0, supplies: 0 };
+
+/**
+ * Name an outpost from the world seed and its position
+ * The origin is always the expedition's base camp.
+ */
+export function nameOutpost(seed: number, position: HexCoord): string {
+  if (position.q === 0 && position.r === 0) return 'Base Camp';
+  const roll = hashCoords(seed ^ NAME_SALT, position.q, position.r);
+  const prefix = NAME_PREFIXES[roll % NAME_PREFIXES.length];
+  const suffix = NAME_SUFFIXES[Math.floor(roll / NAME_PREFIXES.length) % NAME_SUFFIXES.length];
+  return `${prefix} ${suffix}`;
+}
+
+/**
+ * Start a new, empty outpost
+ */
+export function createOutpost(seed: number, position: HexCoord, turn: number): Outpost {
+  return { name: nameOutpost(seed, position), position, stock: EMPTY_STOCK, founded: turn };
+}
+
+/**
+ * Outpost standing on a coordinate, if any
+ */
+export function outpostAt(outposts: Outpost[], coord: HexCoord): Outpost | undefined {
+  return outposts.find(outpost => outpost.position.q === coord.q && outpost.position.r === coord.r);
+}
+
+/**
+ * Resources an outpost gains each tick from the terrain around it
+ */
+export function outpostYield(outpost: Outpost, tiles: Map<string, HexTile>): Partial<InventoryState> {
+  const resources: Partial<InventoryState> = {};
+  hexNeighbors(outpost.position.q, outpost.position.r).forEach(coord => {
+    const tile = tiles.get(hexKey(coord.q, coord.r));
+    const resource = tile && tile.biome !== 'corrupted' ? TERRAIN_YIELDS[tile.type] : undefined;
+    if (resource) resources[resource] = (resources[resource] ?? 0) + 1;
+  });
+  return resources;
+}
+
+/**
+ * Add resources to an outpost's storage, capped at its capacity
+ */
+export function storeResources(stock: InventoryState, resources: Partial<InventoryState>): InventoryState {
+  const next = { ...stock };
+  (Object.keys(resources) as Array<keyof InventoryState>).forEach(resource => {
+    next[resource] = Math.min(OUTPOST_CAPACITY, stock[resource] + (resources[resource] ?? 0));
+  });
+  return next;
+}
+
+/**
+ * Run one production tick for every outpost
+ * Returns the updated outposts and how many units were produced in total.
+ */
+export function produceResources(
+  outposts: Outpost[],
+  tiles: Map<string, HexTile>
+): { outposts: Outpost[]; produced: number } {
+  let produced = 0;
+  const next = outposts.map(outpost => {
+    const stock = storeResources(outpost.stock, outpostYield(outpost, tiles));
+    const gained = (Object.keys(stock) as Array<keyof InventoryState>).reduce(
+      (total, resource) => total + stock[resource] - outpost.stock[resource],
+      0
+    );
+    produced += gained;
+    return gained > 0 ? { ...outpost, stock } : outpost;
+  });
+  return { outposts: next, produced };
+}
+
+/**
+ * Every outpost reachable from a starting outpost through linked hops
+ */
+export function connectedOutposts(outposts: Outpost[], from: HexCoord): Outpost[] {
+  const start = outpostAt(outposts, from);
+  if (!start) return [];
+
+  const reached = new Set<Outpost>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    outposts.forEach(other => {
+      if (!reached.has(other) && hexDistance(current.position, other.position) <= LINK_RANGE) {
+        reached.add(other);
+        queue.push(other);
+      }
+    });
+  }
+
+  reached.delete(start);
+  return Array.from(reached);
+}
+
+/**
+ * Energy charged to fast travel between two outposts
+ */
+export function travelFee(from: HexCoord, to: HexCoord): number {
+  return TRAVEL_FEE + Math.ceil(hexDistance(from, to) / HEXES_PER_ENERGY);
+}
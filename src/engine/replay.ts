@@ -0,0 +1,76 @@
+/**
+ * Deterministic replay
+ *
+ * A recording is only a seed and the accepted actions, so playback
+ * re-runs the engine from scratch. Keeping every intermediate state would
+ * copy the tile map per action; instead a checkpoint is kept every few
+ * steps and scrubbing replays forward from the nearest one.
+ */
+
+import { applyAction, createGameState } from './gameEngine';
+import { hashState } from './saveFormat';
+import type { GameState } from '../types/game';
+import type { Recording } from '../types/save';
+
+/** Actions between stored checkpoints */
+const CHECKPOINT_INTERVAL = 25;
+
+export interface ReplayTimeline {
+  recording: Recording;
+  /** States after 0, CHECKPOINT_INTERVAL, 2 * CHECKPOINT_INTERVAL… actions */
+  checkpoints: GameState[];
+  finalState: GameState;
+  finalHash: string;
+  /** Whether the replayed run ends exactly where the recorded one did */
+  verified: boolean;
+  /** Index of the first action the engine rejected on playback, if any */
+  divergedAt: number | null;
+}
+
+/**
+ * Play a recording through to the end and check it against its hash
+ */
+export function buildReplay(recording: Recording): ReplayTimeline {
+  let state = createGameState(recording.seed, {
+    hardcore: recording.hardcore,
+    config: recording.config,
+  });
+  const checkpoints = [state];
+  let divergedAt: number | null = null;
+
+  recording.actions.forEach((action, index) => {
+    const result = applyAction(state, action);
+    // Only accepted actions are recorded, so a rejection means the run diverged
+    if (divergedAt === null && result.events.some(event => event.type === 'rejected')) {
+      divergedAt = index;
+    }
+    state = result.state;
+    if ((index + 1) % CHECKPOINT_INTERVAL === 0) checkpoints.push(state);
+  });
+
+  const finalHash = hashState(state);
+  return {
+    recording,
+    checkpoints,
+    finalState: state,
+    finalHash,
+    verified: divergedAt === null && finalHash === recording.finalHash,
+    divergedAt,
+  };
+}
+
+/**
+ * State after the first `step` actions of the recording
+ */
+export function replayStateAt(timeline: ReplayTimeline, step: number): GameState {
+  const { actions } = timeline.recording;
+  const target = Math.max(0, Math.min(step, actions.length));
+  if (target === actions.length) return timeline.finalState;
+
+  const checkpoint = Math.floor(target / CHECKPOINT_INTERVAL);
+  let state = timeline.checkpoints[checkpoint];
+  for (let index = checkpoint * CHECKPOINT_INTERVAL; index < target; index++) {
+    state = applyAction(state, actions[index]).state;
+  }
+  return state;
+}
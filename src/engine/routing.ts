@@ -0,0 +1,82 @@
+/**
+ * Multi-hex route planning
+ *
+ * Routes are planned over what the player knows: revealed tiles use their
+ * real movement cost, unrevealed tiles are assumed passable at an estimated
+ * cost. Execution re-checks the remaining steps as the fog lifts.
+ */
+
+import { hexKey } from '../lib/hexMath';
+import { findPath, floodFill } from '../lib/pathfinding';
+import type { GameState, HexCoord, PlannedRoute, RouteStep } from '../types/game';
+import { entryCost, loadoutOf } from './movement';
+
+/** Assumed cost of entering a tile the player has not seen */
+export const UNKNOWN_TILE_COST = 2;
+
+function knownTile(state: GameState, coord: HexCoord) {
+  const tile = state.tiles.get(hexKey(coord.q, coord.r));
+  return tile?.revealed ? tile : null;
+}
+
+/**
+ * Plan the cheapest known route from the player to a destination
+ * Returns null when no route exists (or none was found within the search budget)
+ */
+export function planRoute(state: GameState, destination: HexCoord): PlannedRoute | null {
+  const loadout = loadoutOf(state);
+  const result = findPath(state.player.position, destination, coord => {
+    const tile = knownTile(state, coord);
+    return tile ? entryCost(tile, loadout) : UNKNOWN_TILE_COST;
+  });
+  if (!result || result.path.length === 0) return null;
+
+  const steps: RouteStep[] = result.path.map(coord => {
+    const tile = knownTile(state, coord);
+    return {
+      coord,
+      cost: tile ? (entryCost(tile, loadout) ?? UNKNOWN_TILE_COST) : UNKNOWN_TILE_COST,
+      known: tile !== null,
+    };
+  });
+
+  return {
+    destination,
+    steps,
+    totalCost: result.cost,
+    hasUnknown: steps.some(step => !step.known),
+  };
+}
+
+/**
+ * Find the first remaining step that turned out worse than planned
+ * A step is a hazard once revealed as impassable or costlier than estimated.
+ */
+export function findRouteHazard(state: GameState, steps: RouteStep[]): RouteStep | null {
+  const loadout = loadoutOf(state);
+  return (
+    steps.find(step => {
+      const tile = knownTile(state, step.coord);
+      if (!tile) return false;
+      const cost = entryCost(tile, loadout);
+      return cost === null || cost > step.cost;
+    }) ?? null
+  );
+}
+
+/**
+ * Every revealed tile the player can reach with their current energy
+ * Maps hexKey to the energy that would remain on arrival (the player's tile included)
+ */
+export function reachableTiles(state: GameState): Map<string, number> {
+  const { position, energy } = state.player;
+  const loadout = loadoutOf(state);
+  const costs = floodFill(position, energy, coord => {
+    const tile = knownTile(state, coord);
+    return tile ? entryCost(tile, loadout) : null;
+  });
+
+  const remaining = new Map<string, number>();
+  costs.forEach((cost, key) => remaining.set(key, energy - cost));
+  return remaining;
+}
@@ -0,0 +1,152 @@
+/**
+ * Save file encoding
+ *
+ * Converts GameState to and from a JSON-friendly, versioned shape.
+ * Bump SAVE_VERSION whenever SerializedGame changes, or when rule changes
+ * would make stored recordings replay differently.
+ */
+
+import { hexKey } from '../lib/hexMath';
+import { hashString } from '../lib/random';
+import type { HexTile } from '../types/tiles';
+import type { GameAction, GameState } from '../types/game';
+import type { SaveData, SaveSummary, SavedView, SerializedGame, SerializedTile } from '../types/save';
+import { difficultyOf } from './config';
+
+export const SAVE_VERSION = 13;
+
+const FLAG_REVEALED = 1;
+const FLAG_EXPLORED = 2;
+// 4 marked passable tiles before v5; passability now depends on equipment
+const FLAG_FEATURE_DISCOVERED = 8;
+
+function encodeTile(tile: HexTile): SerializedTile {
+  const flags =
+    (tile.revealed ? FLAG_REVEALED : 0) |
+    (tile.explored ? FLAG_EXPLORED : 0) |
+    (tile.featureDiscovered ? FLAG_FEATURE_DISCOVERED : 0);
+
+  return [
+    tile.q,
+    tile.r,
+    tile.type,
+    tile.biome,
+    tile.elevation,
+    flags,
+    tile.feature ?? null,
+  ];
+}
+
+function decodeTile([q, r, type, biome, elevation, flags, feature]: SerializedTile): HexTile {
+  return {
+    q,
+    r,
+    type,
+    biome,
+    elevation,
+    revealed: (flags & FLAG_REVEALED) !== 0,
+    explored: (flags & FLAG_EXPLORED) !== 0,
+    featureDiscovered: (flags & FLAG_FEATURE_DISCOVERED) !== 0,
+    feature: feature ?? undefined,
+  };
+}
+
+/**
+ * Encode a game state for storage
+ */
+export function serializeGame(state: GameState): SerializedGame {
+  return {
+    seed: state.seed,
+    beacon: state.beacon,
+    hasWon: state.hasWon,
+    hardcore: state.hardcore,
+    config: state.config,
+    turn: state.turn,
+    player: state.player,
+    inventory: state.inventory,
+    equipment: state.equipment,
+    perks: state.perks,
+    outposts: state.outposts,
+    stats: state.stats,
+    tiles: Array.from(state.tiles.values(), encodeTile),
+  };
+}
+
+/**
+ * Rebuild a game state from its stored form
+ */
+export function deserializeGame(data: SerializedGame): GameState {
+  const tiles = new Map<string, HexTile>();
+  data.tiles.forEach(entry => {
+    const tile = decodeTile(entry);
+    tiles.set(hexKey(tile.q, tile.r), tile);
+  });
+
+  return {
+    seed: data.seed,
+    beacon: data.beacon,
+    hasWon: data.hasWon,
+    hardcore: data.hardcore,
+    config: data.config,
+    turn: data.turn,
+    player: data.player,
+    inventory: data.inventory,
+    equipment: data.equipment,
+    perks: data.perks,
+    outposts: data.outposts,
+    stats: data.stats,
+    tiles,
+  };
+}
+
+/**
+ * Fingerprint of everything a save would store for this state
+ * Two states with the same hash are indistinguishable to the player.
+ */
+export function hashState(state: GameState): string {
+  return hashString(JSON.stringify(serializeGame(state))).toString(16).padStart(8, '0');
+}
+
+/**
+ * Bundle a game and its view into a save file
+ * Pass the run's action log to keep it replayable, or null if it has none
+ */
+export function createSave(
+  name: string,
+  runId: string,
+  state: GameState,
+  view: SavedView,
+  actions: GameAction[] | null
+): SaveData {
+  return {
+    version: SAVE_VERSION,
+    name,
+    savedAt: Date.now(),
+    runId,
+    game: serializeGame(state),
+    view,
+    recording: actions && {
+      seed: state.seed,
+      hardcore: state.hardcore,
+      config: state.config,
+      actions,
+      finalHash: hashState(state),
+    },
+  };
+}
+
+/**
+ * Build the listing entry for a save without decoding its tiles
+ */
+export function summarizeSave(id: string, save: SaveData): SaveSummary {
+  return {
+    id,
+    name: save.name,
+    savedAt: save.savedAt,
+    seed: save.game.seed,
+    difficulty: difficultyOf(save.game.config),
+    explored: save.game.tiles.filter(tile => (tile[5] & FLAG_EXPLORED) !== 0).length,
+    hasWon: save.game.hasWon,
+    replayable: save.recording !== null,
+  };
+}
@@ -0,0 +1,402 @@
+/**
+ * Save file validation and migration
+ *
+ * Anything read from storage or an imported file is untrusted. Saves are
+ * first upgraded through the migration chain, then every field is checked
+ * against the current data model before the game touches it.
+ */
+
+import { BIOME_STYLES, TILE_STYLES } from '../types/tiles';
+import type { BiomeType, TileFeature, TileType } from '../types/tiles';
+import { EQUIPMENT, EQUIPMENT_SLOTS } from '../types/equipment';
+import type { EquipmentId } from '../types/equipment';
+import { RECIPES } from '../types/recipes';
+import type { RecipeId } from '../types/recipes';
+import { PERKS } from '../types/perks';
+import type { PerkId } from '../types/perks';
+import { DIFFICULTY_PRESETS, OUTPOST_COST_LIMITS, RULE_LIMITS } from '../types/config';
+import type { GameConfig, ScalarRule } from '../types/config';
+import type { GameAction, InventoryState, RunStats } from '../types/game';
+import type { SaveData } from '../types/save';
+import { hashString } from '../lib/random';
+import { SAVE_VERSION } from './saveFormat';
+import { OUTPOST_CAPACITY, createOutpost } from './outposts';
+import { EMPTY_STATS } from './scoring';
+import { configProblems } from './config';
+
+/**
+ * Raised when save data cannot be migrated or fails validation
+ */
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFileError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+type Migration = (save: UnknownRecord) => UnknownRecord;
+
+/**
+ * Upgrades keyed by the version they migrate FROM
+ * Each step must produce a save of the next version.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 added hardcore mode; older runs were always undoable
+  1: save => ({
+    ...save,
+    version: 2,
+    game: { ...expectObject(save.game, 'save.game'), hardcore: false },
+  }),
+  // v3 added action recordings; earlier runs cannot be replayed
+  2: save => ({ ...save, version: 3, recording: null }),
+  // v4 added the turn clock; recordings made without it no longer replay to the same state
+  3: save => ({
+    ...save,
+    version: 4,
+    game: { ...expectObject(save.game, 'save.game'), turn: 0 },
+    recording: null,
+  }),
+  // v5 spread corruption and drained energy on corrupted land, which changes the outcome of
+  // every action sequence, so recordings made without it no longer replay to the same state
+  4: save => ({ ...save, version: 5, recording: null }),
+  // v6 made passability depend on equipment: tiles lose movementCost and the
+  // passable flag, and recordings made under the old movement rules are dropped
+  5: save => {
+    const game = expectObject(save.game, 'save.game');
+    return {
+      ...save,
+      version: 6,
+      game: {
+        ...game,
+        // Older runs could already cross water and mountains, so they keep that ability
+        equipment: { owned: ['climbingGear', 'boat'], slots: ['climbingGear', 'boat'] },
+        tiles: expectArray(game.tiles, 'save.game.tiles').map(tile => {
+          const [q, r, type, biome, elevation, , flags, feature] = expectArray(tile, 'save.game.tiles[]');
+          return [q, r, type, biome, elevation, (flags as number) & ~4, feature];
+        }),
+      },
+      recording: null,
+    };
+  },
+  // v7 added relic perks and daily rations; dawn now eats supplies, so old recordings diverge
+  6: save => ({
+    ...save,
+    version: 7,
+    game: { ...expectObject(save.game, 'save.game'), perks: [] },
+    recording: null,
+  }),
+  // v8 tracked outposts as entities; existing settlements become empty outposts
+  7: save => {
+    const game = expectObject(save.game, 'save.game');
+    const seed = hashString(expectString(game.seed, 'save.game.seed'));
+    const outposts = expectArray(game.tiles, 'save.game.tiles')
+      .map(tile => expectArray(tile, 'save.game.tiles[]'))
+      .filter(([, , type]) => type === 'settlement')
+      .map(([q, r]) => createOutpost(seed, { q: q as number, r: r as number }, 0));
+    return { ...save, version: 8, game: { ...game, outposts }, recording: null };
+  },
+  // v9 added run statistics; totals before the upgrade are unknown and start at zero
+  8: save => ({
+    ...save,
+    version: 9,
+    game: { ...expectObject(save.game, 'save.game'), stats: EMPTY_STATS },
+    recording: null,
+  }),
+  // v10 counted rests; earlier runs are assumed to have rested so they cannot claim otherwise
+  9: save => {
+    const game = expectObject(save.game, 'save.game');
+    const stats = expectObject(game.stats, 'save.game.stats');
+    return {
+      ...save,
+      version: 10,
+      game: { ...game, stats: { ...stats, rests: game.turn === 0 ? 0 : 1 } },
+      recording: null,
+    };
+  },
+  // v11 made the rules configurable; every earlier run was played on normal.
+  // Hashes now cover the rules, so old recordings would no longer verify
+  10: save => ({
+    ...save,
+    version: 11,
+    game: { ...expectObject(save.game, 'save.game'), config: DIFFICULTY_PRESETS.normal },
+    recording: null,
+  }),
+  // v12 stopped handing out climbing gear and a boat at the start. Every earlier run set out
+  // with both, so they are taken back unless the player is standing on terrain that needs
+  // one. Recordings made from the old starting kit diverge on replay
+  11: save => {
+    const game = expectObject(save.game, 'save.game');
+    const player = expectObject(game.player, 'save.game.player');
+    const position = expectObject(player.position, 'save.game.player.position');
+    const standingOn = expectArray(game.tiles, 'save.game.tiles')
+      .map(tile => expectArray(tile, 'save.game.tiles[]'))
+      .find(([q, r]) => q === position.q && r === position.r)?.[2];
+    const kept = standingOn === 'mountain' ? 'climbingGear' : standingOn === 'water' ? 'boat' : null;
+    const revoked = (item: unknown) => (item === 'climbingGear' || item === 'boat') && item !== kept;
+
+    const equipment = expectObject(game.equipment, 'save.game.equipment');
+    const slots = expectArray(equipment.slots, 'save.game.equipment.slots');
+    return {
+      ...save,
+      version: 12,
+      game: {
+        ...game,
+        equipment: {
+          owned: expectArray(equipment.owned, 'save.game.equipment.owned').filter(item => !revoked(item)),
+          slots: Array.from({ length: EQUIPMENT_SLOTS }, (_, slot) =>
+            slots[slot] === undefined || revoked(slots[slot]) ? null : slots[slot]
+          ),
+        },
+      },
+      recording: null,
+    };
+  },
+  // v13 identified runs for the leaderboard; each older save counts as its own run
+  12: save => ({ ...save, version: 13, runId: `legacy-${save.savedAt}` }),
+};
+
+const TILE_TYPES = Object.keys(TILE_STYLES) as TileType[];
+const BIOME_TYPES = Object.keys(BIOME_STYLES) as BiomeType[];
+const TILE_FEATURES: TileFeature[] = ['cache', 'beacon'];
+const EQUIPMENT_IDS = Object.keys(EQUIPMENT) as EquipmentId[];
+const RECIPE_IDS = Object.keys(RECIPES) as RecipeId[];
+const PERK_IDS = Object.keys(PERKS) as PerkId[];
+const SCALAR_RULES = Object.keys(RULE_LIMITS) as ScalarRule[];
+const RESOURCES: Array<keyof InventoryState> = ['wood', 'water', 'ore', 'relics', 'supplies'];
+const ACTION_TYPES: Array<GameAction['type']> = [
+  'move',
+  'pulse',
+  'rest',
+  'buildOutpost',
+  'purify',
+  'equip',
+  'unequip',
+  'craft',
+  'choosePerk',
+  'eatRation',
+  'deposit',
+  'withdraw',
+  'fastTravel',
+];
+
+function fail(path: string, expected: string, value: unknown): never {
+  const actual = value === undefined ? 'nothing' : JSON.stringify(value);
+  throw new SaveFileError(`${path}: expected ${expected}, got ${actual}`);
+}
+
+function expectObject(value: unknown, path: string): UnknownRecord {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object', value);
+  }
+  return value as UnknownRecord;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'an array', value);
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') fail(path, 'a string', value);
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') fail(path, 'true or false', value);
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    const range = Number.isFinite(min) || Number.isFinite(max) ? ` between ${min} and ${max}` : '';
+    fail(path, `a number${range}`, value);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+  const number = expectNumber(value, path, min, max);
+  if (!Number.isInteger(number)) fail(path, 'a whole number', value);
+  return number;
+}
+
+function expectOneOf<T extends string>(value: unknown, options: readonly T[], path: string): T {
+  if (!options.includes(value as T)) fail(path, `one of ${options.join(', ')}`, value);
+  return value as T;
+}
+
+function expectCoord(value: unknown, path: string): void {
+  const coord = expectObject(value, path);
+  expectInteger(coord.q, `${path}.q`);
+  expectInteger(coord.r, `${path}.r`);
+}
+
+function validateTile(value: unknown, path: string): void {
+  const tile = expectArray(value, path);
+  if (tile.length !== 7) fail(path, 'a tile entry with 7 fields', value);
+
+  const [q, r, type, biome, elevation, flags, feature] = tile;
+  expectInteger(q, `${path}.q`);
+  expectInteger(r, `${path}.r`);
+  expectOneOf(type, TILE_TYPES, `${path}.type`);
+  expectOneOf(biome, BIOME_TYPES, `${path}.biome`);
+  expectInteger(elevation, `${path}.elevation`, 0, 5);
+  expectInteger(flags, `${path}.flags`, 0, 15);
+  if (feature !== null) expectOneOf(feature, TILE_FEATURES, `${path}.feature`);
+}
+
+function validateConfig(value: unknown, path: string): void {
+  const config = expectObject(value, path);
+  SCALAR_RULES.forEach(rule => {
+    const { min, max } = RULE_LIMITS[rule];
+    expectInteger(config[rule], `${path}.${rule}`, min, max);
+  });
+  const outpostCost = expectObject(config.outpostCost, `${path}.outpostCost`);
+  (['wood', 'ore', 'water'] as const).forEach(resource => {
+    const { min, max } = OUTPOST_COST_LIMITS;
+    expectInteger(outpostCost[resource], `${path}.outpostCost.${resource}`, min, max);
+  });
+
+  const [problem] = configProblems(config as unknown as GameConfig);
+  if (problem) throw new SaveFileError(`${path}: ${problem}`);
+}
+
+function validateResources(value: unknown, path: string, max?: number): void {
+  const resources = expectObject(value, path);
+  RESOURCES.forEach(resource => {
+    expectInteger(resources[resource], `${path}.${resource}`, 0, max);
+  });
+}
+
+function validateGame(value: unknown, path: string): void {
+  const game = expectObject(value, path);
+  expectString(game.seed, `${path}.seed`);
+  expectCoord(game.beacon, `${path}.beacon`);
+  expectBoolean(game.hasWon, `${path}.hasWon`);
+  expectBoolean(game.hardcore, `${path}.hardcore`);
+  validateConfig(game.config, `${path}.config`);
+  expectInteger(game.turn, `${path}.turn`, 0);
+
+  const player = expectObject(game.player, `${path}.player`);
+  expectCoord(player.position, `${path}.player.position`);
+  const maxEnergy = expectNumber(player.maxEnergy, `${path}.player.maxEnergy`, 0);
+  expectNumber(player.energy, `${path}.player.energy`, 0, maxEnergy);
+
+  validateResources(game.inventory, `${path}.inventory`);
+
+  const equipment = expectObject(game.equipment, `${path}.equipment`);
+  const owned = expectArray(equipment.owned, `${path}.equipment.owned`);
+  owned.forEach((item, index) => {
+    expectOneOf(item, EQUIPMENT_IDS, `${path}.equipment.owned[${index}]`);
+  });
+  const slots = expectArray(equipment.slots, `${path}.equipment.slots`);
+  if (slots.length !== EQUIPMENT_SLOTS) fail(`${path}.equipment.slots`, `${EQUIPMENT_SLOTS} slots`, slots);
+  slots.forEach((item, index) => {
+    if (item !== null) expectOneOf(item, owned as EquipmentId[], `${path}.equipment.slots[${index}]`);
+  });
+
+  const perks = expectArray(game.perks, `${path}.perks`);
+  perks.forEach((perk, index) => {
+    expectOneOf(perk, PERK_IDS, `${path}.perks[${index}]`);
+    if (perks.indexOf(perk) !== index) fail(`${path}.perks[${index}]`, 'a perk chosen once', perk);
+  });
+
+  const stats = expectObject(game.stats, `${path}.stats`);
+  (Object.keys(EMPTY_STATS) as Array<keyof RunStats>).forEach(stat => {
+    expectInteger(stats[stat], `${path}.stats.${stat}`, 0);
+  });
+
+  expectArray(game.outposts, `${path}.outposts`).forEach((value, index) => {
+    const outpost = expectObject(value, `${path}.outposts[${index}]`);
+    expectString(outpost.name, `${path}.outposts[${index}].name`);
+    expectCoord(outpost.position, `${path}.outposts[${index}].position`);
+    validateResources(outpost.stock, `${path}.outposts[${index}].stock`, OUTPOST_CAPACITY);
+    expectInteger(outpost.founded, `${path}.outposts[${index}].founded`, 0);
+  });
+
+  expectArray(game.tiles, `${path}.tiles`).forEach((tile, index) => {
+    validateTile(tile, `${path}.tiles[${index}]`);
+  });
+}
+
+function validateAction(value: unknown, path: string): void {
+  const action = expectObject(value, path);
+  const type = expectOneOf(action.type, ACTION_TYPES, `${path}.type`);
+  if (type === 'move') expectCoord(action.to, `${path}.to`);
+  if (type === 'buildOutpost') expectCoord(action.target, `${path}.target`);
+  if (type === 'equip') expectOneOf(action.item, EQUIPMENT_IDS, `${path}.item`);
+  if (type === 'equip' || type === 'unequip') expectInteger(action.slot, `${path}.slot`, 0);
+  if (type === 'craft') expectOneOf(action.recipe, RECIPE_IDS, `${path}.recipe`);
+  if (type === 'choosePerk') expectOneOf(action.perk, PERK_IDS, `${path}.perk`);
+  if (type === 'deposit' || type === 'withdraw') {
+    const resources = expectObject(action.resources, `${path}.resources`);
+    Object.keys(resources).forEach(resource => {
+      expectOneOf(resource, RESOURCES, `${path}.resources`);
+      expectInteger(resources[resource], `${path}.resources.${resource}`, 0);
+    });
+  }
+  if (type === 'fastTravel') expectCoord(action.to, `${path}.to`);
+}
+
+function validateRecording(value: unknown, path: string): void {
+  if (value === null) return;
+  const recording = expectObject(value, path);
+  expectString(recording.seed, `${path}.seed`);
+  expectBoolean(recording.hardcore, `${path}.hardcore`);
+  validateConfig(recording.config, `${path}.config`);
+  expectString(recording.finalHash, `${path}.finalHash`);
+  expectArray(recording.actions, `${path}.actions`).forEach((action, index) => {
+    validateAction(action, `${path}.actions[${index}]`);
+  });
+}
+
+function validateView(value: unknown, path: string): void {
+  const view = expectObject(value, path);
+  const viewState = expectObject(view.viewState, `${path}.viewState`);
+  expectNumber(viewState.x, `${path}.viewState.x`);
+  expectNumber(viewState.y, `${path}.viewState.y`);
+  expectNumber(viewState.zoom, `${path}.viewState.zoom`, 0.01);
+  if (view.selectedTile !== null) expectString(view.selectedTile, `${path}.selectedTile`);
+  expectBoolean(view.showVictory, `${path}.showVictory`);
+}
+
+/**
+ * Upgrade a save of any supported version to the current SAVE_VERSION
+ */
+export function migrateSave(value: unknown): UnknownRecord {
+  let save = expectObject(value, 'save');
+  let version = expectInteger(save.version, 'save.version', 1);
+
+  if (version > SAVE_VERSION) {
+    throw new SaveFileError(
+      `This save was made by a newer version of Hexplorer (v${version}). Update the game to load it.`
+    );
+  }
+
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SaveFileError(`Saves from version ${version} are no longer supported.`);
+    }
+    save = migrate(save);
+    version = expectInteger(save.version, 'save.version', version + 1, version + 1);
+  }
+
+  return save;
+}
+
+/**
+ * Migrate and validate untrusted save data
+ * Throws SaveFileError describing the first problem found
+ */
+export function parseSave(value: unknown): SaveData {
+  const save = migrateSave(value);
+  expectString(save.name, 'save.name');
+  expectNumber(save.savedAt, 'save.savedAt', 0);
+  expectString(save.runId, 'save.runId');
+  validateGame(save.game, 'save.game');
+  validateView(save.view, 'save.view');
+  validateRecording(save.recording, 'save.recording');
+  return save as unknown as SaveData;
+}
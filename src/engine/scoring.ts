@@ -0,0 +1,129 @@
+/**
+ * Run statistics and scoring
+ *
+ * The engine tallies a few running totals that cannot be recovered from
+ * the final state alone; everything else in a run summary is derived from
+ * the state when the run ends.
+ */
+
+import { hexDistance } from '../lib/hexMath';
+import { RECIPES } from '../types/recipes';
+import type { DifficultyId } from '../types/config';
+import type { GameEvent, GameState, RunStats } from '../types/game';
+import { difficultyOf } from './config';
+
+export const EMPTY_STATS: RunStats = {
+  energySpent: 0,
+  hexesTraveled: 0,
+  cachesFound: 0,
+  relicsFound: 0,
+  rests: 0,
+};
+
+/** Points awarded for each part of a run, and lost per turn taken */
+const SCORE_WEIGHTS = {
+  victory: 1000,
+  tile: 5,
+  relic: 50,
+  outpost: 75,
+  cache: 40,
+  /** Awarded in full for walking straight to the beacon */
+  efficiency: 500,
+  turn: 2,
+};
+
+export type RunOutcome = 'won' | 'abandoned';
+
+/**
+ * Everything shown on the end-of-run screen
+ */
+export interface RunSummary {
+  outcome: RunOutcome;
+  seed: string;
+  hardcore: boolean;
+  /** Missing on runs recorded before difficulty presets, which were all normal */
+  difficulty?: DifficultyId;
+  turns: number;
+  energySpent: number;
+  tilesExplored: number;
+  relicsFound: number;
+  /** Outposts built, not counting the base camp */
+  outpostsBuilt: number;
+  cachesFound: number;
+  /** Hexes traveled on foot or by fast travel */
+  pathLength: number;
+  /** Straight-line distance from the base camp to the beacon */
+  optimalDistance: number;
+  score: number;
+}
+
+/**
+ * Fold one accepted action into the running totals
+ * energySpent is what the action itself cost, before any passive recovery.
+ */
+export function tallyStats(stats: RunStats, energySpent: number, events: GameEvent[]): RunStats {
+  const next = { ...stats, energySpent: stats.energySpent + energySpent };
+  events.forEach(event => {
+    switch (event.type) {
+      case 'moved':
+        next.hexesTraveled += 1;
+        break;
+      case 'fastTraveled':
+        next.hexesTraveled += hexDistance(event.from, event.to);
+        break;
+      case 'gathered':
+        if (event.cache) next.cachesFound += 1;
+        next.relicsFound += event.resources.relics ?? 0;
+        break;
+      case 'rested':
+        next.rests += 1;
+        break;
+      case 'crafted':
+        next.relicsFound += RECIPES[event.recipe].outputs.resources?.relics ?? 0;
+        break;
+    }
+  });
+  return next;
+}
+
+/**
+ * Score a run; victory and efficiency dominate, and every turn costs a little
+ */
+function scoreRun(summary: Omit<RunSummary, 'score'>): number {
+  const won = summary.outcome === 'won';
+  const efficiency = won
+    ? summary.optimalDistance / Math.max(summary.pathLength, summary.optimalDistance, 1)
+    : 0;
+
+  const score =
+    (won ? SCORE_WEIGHTS.victory : 0) +
+    summary.tilesExplored * SCORE_WEIGHTS.tile +
+    summary.relicsFound * SCORE_WEIGHTS.relic +
+    summary.outpostsBuilt * SCORE_WEIGHTS.outpost +
+    summary.cachesFound * SCORE_WEIGHTS.cache +
+    efficiency * SCORE_WEIGHTS.efficiency -
+    summary.turns * SCORE_WEIGHTS.turn;
+
+  return Math.max(0, Math.round(score));
+}
+
+/**
+ * Summarize and score a run as it ends
+ */
+export function summarizeRun(state: GameState, outcome: RunOutcome): RunSummary {
+  const summary = {
+    outcome,
+    seed: state.seed,
+    hardcore: state.hardcore,
+    difficulty: difficultyOf(state.config),
+    turns: state.turn,
+    energySpent: state.stats.energySpent,
+    tilesExplored: Array.from(state.tiles.values()).filter(tile => tile.explored).length,
+    relicsFound: state.stats.relicsFound,
+    outpostsBuilt: Math.max(0, state.outposts.length - 1),
+    cachesFound: state.stats.cachesFound,
+    pathLength: state.stats.hexesTraveled,
+    optimalDistance: hexDistance({ q: 0, r: 0 }, state.beacon),
+  };
+  return { ...summary, score: scoreRun(summary) };
+}
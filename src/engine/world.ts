@@ -0,0 +1,172 @@
+/**
+ * Procedural world generation
+ *
+ * Tiles are generated lazily from their coordinates so the map can grow
+ * in any direction while staying identical between visits.
+ */
+
+import { hexRing } from '../lib/hexMath';
+import { createRandom, hashCoords, hashString } from '../lib/random';
+import { fractalNoise } from '../lib/noise';
+import type { BiomeType, HexTile, TileType } from '../types/tiles';
+import type { HexCoord } from '../types/game';
+
+const BEACON_SALT = 0x9e3779b9;
+const CACHE_CHANCE = 1 / 37;
+
+/**
+ * Everything tile generation needs to know about the world
+ */
+export interface WorldParams {
+  seed: number;
+  beacon: HexCoord;
+}
+
+/**
+ * Pick the beacon location on a ring of the given radius around the origin
+ */
+export function placeBeacon(seed: number, beaconRing: number): HexCoord {
+  const ring = hexRing({ q: 0, r: 0 }, beaconRing);
+  const random = createRandom(seed ^ BEACON_SALT);
+  return ring[Math.floor(random() * ring.length)];
+}
+
+/**
+ * Derive world parameters from a user-facing seed string
+ */
+export function createWorld(seed: string, beaconRing: number): WorldParams {
+  const numericSeed = hashString(seed);
+  return { seed: numericSeed, beacon: placeBeacon(numericSeed, beaconRing) };
+}
+
+/** Feature sizes (in hexes) of each noise field */
+const HEIGHT_SCALE = 9;
+const CLIMATE_SCALE = 28;
+const CORRUPTION_SCALE = 18;
+
+/** Height thresholds for water bodies, mountain ranges and the tallest peaks */
+const SEA_LEVEL = 0.36;
+const MOUNTAIN_LEVEL = 0.66;
+const PEAK_LEVEL = 0.8;
+
+/** Elevation of the tallest peaks */
+export const MAX_ELEVATION = 5;
+
+/** Highest ground below the mountain line, where ruins and other lowland terrain top out */
+export const MAX_LOWLAND_ELEVATION = elevationAt(MOUNTAIN_LEVEL);
+
+/** Independent noise channels derived from the world seed */
+const HEIGHT_CHANNEL = 0x1b873593;
+const MOISTURE_CHANNEL = 0x5bd1e995;
+const TEMPERATURE_CHANNEL = 0x68e31da4;
+const CORRUPTION_CHANNEL = 0x2545f491;
+
+type TileWeights = Partial<Record<TileType, number>>;
+
+/**
+ * Terrain mix for mid-height land in each biome
+ * Water and mountains come from the height field instead
+ */
+const BIOME_TERRAIN: Record<BiomeType, TileWeights> = {
+  temperate: { plains: 0.55, forest: 0.33, desert: 0.04, ruins: 0.04, void: 0.01, mountain: 0.03 },
+  arctic: { plains: 0.55, forest: 0.14, mountain: 0.16, water: 0.08, ruins: 0.05, void: 0.02 },
+  tropical: { forest: 0.56, plains: 0.24, water: 0.12, ruins: 0.06, void: 0.02 },
+  volcanic: { desert: 0.46, mountain: 0.22, plains: 0.15, ruins: 0.08, void: 0.09 },
+  corrupted: { plains: 0.3, void: 0.22, desert: 0.18, ruins: 0.14, forest: 0.16 },
+};
+
+/**
+ * Sampled environmental fields at a hex, each in [0, 1)
+ */
+export interface Climate {
+  height: number;
+  moisture: number;
+  temperature: number;
+  corruption: number;
+}
+
+/**
+ * Sample the world's noise fields at a hex
+ */
+export function sampleClimate(q: number, r: number, seed: number): Climate {
+  // Axial to cartesian so features are not skewed along the hex axes
+  const x = q + r / 2;
+  const y = (r * Math.sqrt(3)) / 2;
+
+  return {
+    height: fractalNoise(seed ^ HEIGHT_CHANNEL, x / HEIGHT_SCALE, y / HEIGHT_SCALE),
+    moisture: fractalNoise(seed ^ MOISTURE_CHANNEL, x / CLIMATE_SCALE, y / CLIMATE_SCALE, { octaves: 3 }),
+    temperature: fractalNoise(seed ^ TEMPERATURE_CHANNEL, x / CLIMATE_SCALE, y / CLIMATE_SCALE, { octaves: 3 }),
+    corruption: fractalNoise(seed ^ CORRUPTION_CHANNEL, x / CORRUPTION_SCALE, y / CORRUPTION_SCALE, { octaves: 2 }),
+  };
+}
+
+/**
+ * Classify a climate sample into a biome
+ */
+export function classifyBiome({ moisture, temperature, corruption }: Climate): BiomeType {
+  if (corruption > 0.7) return 'corrupted';
+  if (temperature < 0.36) return 'arctic';
+  if (temperature > 0.6 && moisture < 0.45) return 'volcanic';
+  if (temperature > 0.56 && moisture >= 0.5) return 'tropical';
+  return 'temperate';
+}
+
+/**
+ * Land rises from the shoreline (0) to the peaks (MAX_ELEVATION)
+ */
+function elevationAt(height: number): number {
+  const landHeight = (height - SEA_LEVEL) / (PEAK_LEVEL - SEA_LEVEL);
+  return Math.min(MAX_ELEVATION, Math.max(0, Math.floor(landHeight * (MAX_ELEVATION + 1))));
+}
+
+function pickWeighted(weights: TileWeights, roll: number): TileType {
+  const entries = Object.entries(weights) as Array<[TileType, number]>;
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let threshold = roll * total;
+
+  for (const [type, weight] of entries) {
+    threshold -= weight;
+    if (threshold < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+}
+
+/**
+ * Generate a tile deterministically from the world seed and its coordinates
+ */
+export function generateTile(q: number, r: number, world: WorldParams): HexTile {
+  const random = createRandom(hashCoords(world.seed, q, r));
+  const climate = sampleClimate(q, r, world.seed);
+  const biome = classifyBiome(climate);
+
+  let type: TileType;
+  if (climate.height < SEA_LEVEL) type = 'water';
+  else if (climate.height > MOUNTAIN_LEVEL) type = 'mountain';
+  else type = pickWeighted(BIOME_TERRAIN[biome], random());
+
+  if (q === 0 && r === 0) {
+    type = 'settlement';
+  }
+
+  const isBeacon = q === world.beacon.q && r === world.beacon.r;
+  if (isBeacon) {
+    type = 'beacon';
+  }
+
+  const hasCache = !isBeacon && type !== 'void' && type !== 'water' && random() < CACHE_CHANCE;
+
+  const elevation = type === 'water' ? 0 : elevationAt(climate.height);
+
+  return {
+    q,
+    r,
+    type,
+    revealed: false,
+    explored: false,
+    elevation,
+    biome,
+    feature: isBeacon ? 'beacon' : hasCache ? 'cache' : undefined,
+    featureDiscovered: false,
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useCallback, useRef } from 'react';
+import { evaluateAchievements } from '../engine/achievements';
+import { loadUnlocks, saveUnlocks } from '../lib/achievements';
+import type { AchievementUnlocks } from '../lib/achievements';
+import { ACHIEVEMENTS } from '../types/achievements';
+import type { AchievementId } from '../types/achievements';
+import type { GameEvent, GameState } from '../types/game';
+
+export interface UseAchievementsReturn {
+  unlocks: AchievementUnlocks;
+  /** Checks an action's outcome, persisting and returning any new unlocks */
+  checkAchievements: (events: GameEvent[], state: GameState) => AchievementId[];
+}
+
+const ALL_ACHIEVEMENTS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+/**
+ * Persisted achievement unlocks as React state
+ */
+export function useAchievements(): UseAchievementsReturn {
+  const [unlocks, setUnlocks] = useState<AchievementUnlocks>(loadUnlocks);
+  const unlocksRef = useRef(unlocks);
+
+  const checkAchievements = useCallback((events: GameEvent[], state: GameState) => {
+    const current = unlocksRef.current;
+    const locked = ALL_ACHIEVEMENTS.filter(id => current[id] === undefined);
+    const earned = evaluateAchievements(locked, events, state);
+    if (earned.length === 0) return earned;
+
+    const now = Date.now();
+    const next = { ...current };
+    earned.forEach(id => {
+      next[id] = now;
+    });
+    unlocksRef.current = next;
+    saveUnlocks(next);
+    setUnlocks(next);
+    return earned;
+  }, []);
+
+  return { unlocks, checkAchievements };
+}
@@ -17,6 +17,11 @@ export interface UseCanvasInteractionOptions {
   containerRef: React.RefObject<HTMLDivElement | null>;
   pixelToHex: (x: number, y: number) => HexCoord;
   onTileClick?: (coords: HexCoord) => void;
+  initialViewState?: ViewState;
+  /** Fraction the zoom changes by per wheel step */
+  zoomSensitivity?: number;
+  minZoom?: number;
+  maxZoom?: number;
 }
 
 export interface UseCanvasInteractionReturn {
@@ -37,9 +42,15 @@ export function useCanvasInteraction(
     containerRef,
     pixelToHex,
     onTileClick,
+    initialViewState = { x: 0, y: 0, zoom: 1.0 },
+    zoomSensitivity = 0.1,
+    minZoom = 0.25,
+    maxZoom = 3,
   } = options;
 
-  const [viewState, setViewState] = useState<ViewState>({ x: 0, y: 0, zoom: 1.0 });
+  const clampZoom = (zoom: number) => Math.min(Math.max(zoom, minZoom), maxZoom);
+
+  const [viewState, setViewState] = useState<ViewState>(initialViewState);
   const [isDragging, setIsDragging] = useState(false);
   const [touchDistance, setTouchDistance] = useState(0);
 
@@ -126,7 +137,7 @@ export function useCanvasInteraction(
       const scale = newTouchDistance / touchDistance;
       setViewState((prev) => ({
         ...prev,
-        zoom: Math.min(Math.max(prev.zoom * scale, 0.1), 3),
+        zoom: clampZoom(prev.zoom * scale),
       }));
       setTouchDistance(newTouchDistance);
     }
@@ -157,22 +168,23 @@ export function useCanvasInteraction(
 
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
+      const factor = e.deltaY > 0 ? 1 - zoomSensitivity : 1 + zoomSensitivity;
       setViewState((prev) => ({
         ...prev,
-        zoom: Math.min(Math.max(prev.zoom * (e.deltaY > 0 ? 0.9 : 1.1), 0.1), 3),
+        zoom: Math.min(Math.max(prev.zoom * factor, minZoom), maxZoom),
       }));
     };
 
     container.addEventListener("wheel", handleWheel, { passive: false });
     return () => container.removeEventListener("wheel", handleWheel);
-  }, []);
+  }, [containerRef, zoomSensitivity, minZoom, maxZoom]);
 
   // React wheel handler (for direct use)
   const handleWheelReact = (e: React.WheelEvent) => {
     e.preventDefault();
     setViewState((prev) => ({
       ...prev,
-      zoom: Math.min(Math.max(prev.zoom * (e.deltaY > 0 ? 0.9 : 1.1), 0.25), 3),
+      zoom: clampZoom(prev.zoom * (e.deltaY > 0 ? 1 - zoomSensitivity : 1 + zoomSensitivity)),
     }));
   };
 
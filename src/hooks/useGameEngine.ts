@@ -0,0 +1,139 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { applyAction } from '../engine/gameEngine';
+import { diffStates, reapplyDiff, revertDiff, type HistoryEntry } from '../engine/history';
+import type { ActionResult, GameAction, GameEvent, GameState } from '../types/game';
+
+/** Oldest entries are dropped beyond this many undo steps */
+const MAX_HISTORY = 200;
+
+export interface UseGameEngineOptions {
+  initialState: () => GameState;
+  /** Actions already recorded for the initial state, or null if it cannot be replayed */
+  initialActions?: () => GameAction[] | null;
+  onEvents?: (events: GameEvent[], action: GameAction, state: GameState) => void;
+}
+
+export interface UseGameEngineReturn {
+  state: GameState;
+  dispatch: (action: GameAction) => ActionResult;
+  /** Reverts the latest action, returning it or null when nothing can be undone */
+  undo: () => HistoryEntry | null;
+  /** Re-applies the latest undone action */
+  redo: () => HistoryEntry | null;
+  /** Applied actions, oldest first */
+  history: HistoryEntry[];
+  /** Undone actions, next redo last */
+  future: HistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Every accepted action since the run began, for replays */
+  actions: GameAction[] | null;
+}
+
+interface Timeline {
+  state: GameState;
+  actions: GameAction[] | null;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  nextId: number;
+}
+
+/**
+ * Binds the headless game engine to React state
+ * Dispatch applies actions against the latest state, so several
+ * actions fired before a re-render still chain correctly.
+ * Accepted actions are recorded as diffs for undo/redo unless the run is hardcore.
+ */
+export function useGameEngine(options: UseGameEngineOptions): UseGameEngineReturn {
+  const { initialState, initialActions, onEvents } = options;
+
+  const [timeline, setTimeline] = useState<Timeline>(() => ({
+    state: initialState(),
+    actions: initialActions ? initialActions() : [],
+    past: [],
+    future: [],
+    nextId: 1,
+  }));
+  const timelineRef = useRef(timeline);
+  const onEventsRef = useRef(onEvents);
+
+  useEffect(() => {
+    onEventsRef.current = onEvents;
+  }, [onEvents]);
+
+  const commit = useCallback((next: Timeline) => {
+    timelineRef.current = next;
+    setTimeline(next);
+  }, []);
+
+  const dispatch = useCallback(
+    (action: GameAction) => {
+      const current = timelineRef.current;
+      const result = applyAction(current.state, action);
+
+      if (result.state !== current.state) {
+        const recordable = !result.state.hardcore;
+        const entry: HistoryEntry = {
+          id: current.nextId,
+          action,
+          events: result.events,
+          diff: diffStates(current.state, result.state),
+        };
+        commit({
+          state: result.state,
+          actions: current.actions && [...current.actions, action],
+          past: recordable ? [...current.past, entry].slice(-MAX_HISTORY) : current.past,
+          future: [],
+          nextId: current.nextId + 1,
+        });
+      }
+
+      onEventsRef.current?.(result.events, action, result.state);
+      return result;
+    },
+    [commit]
+  );
+
+  const undo = useCallback(() => {
+    const current = timelineRef.current;
+    const entry = current.past[current.past.length - 1];
+    if (!entry || current.state.hardcore) return null;
+
+    commit({
+      ...current,
+      state: revertDiff(current.state, entry.diff),
+      actions: current.actions && current.actions.slice(0, -1),
+      past: current.past.slice(0, -1),
+      future: [...current.future, entry],
+    });
+    return entry;
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const current = timelineRef.current;
+    const entry = current.future[current.future.length - 1];
+    if (!entry || current.state.hardcore) return null;
+
+    commit({
+      ...current,
+      state: reapplyDiff(current.state, entry.diff),
+      actions: current.actions && [...current.actions, entry.action],
+      past: [...current.past, entry],
+      future: current.future.slice(0, -1),
+    });
+    return entry;
+  }, [commit]);
+
+  const { state, actions, past, future } = timeline;
+  return {
+    state,
+    dispatch,
+    undo,
+    redo,
+    history: past,
+    future,
+    canUndo: !state.hardcore && past.length > 0,
+    canRedo: !state.hardcore && future.length > 0,
+    actions,
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+import {
+  DEFAULT_KEY_BINDINGS,
+  loadKeyBindings,
+  rebindKey,
+  saveKeyBindings,
+} from '../lib/keyBindings';
+import type { CommandId, KeyBindings } from '../lib/keyBindings';
+
+export interface UseKeyBindingsReturn {
+  bindings: KeyBindings;
+  rebind: (command: CommandId, key: string) => void;
+  resetBindings: () => void;
+}
+
+/**
+ * Persisted key bindings as React state
+ */
+export function useKeyBindings(): UseKeyBindingsReturn {
+  const [bindings, setBindings] = useState<KeyBindings>(loadKeyBindings);
+
+  const rebind = useCallback((command: CommandId, key: string) => {
+    setBindings(prev => {
+      const next = rebindKey(prev, command, key);
+      saveKeyBindings(next);
+      return next;
+    });
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    saveKeyBindings(DEFAULT_KEY_BINDINGS);
+    setBindings({ ...DEFAULT_KEY_BINDINGS });
+  }, []);
+
+  return { bindings, rebind, resetBindings };
+}
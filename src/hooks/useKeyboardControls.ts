@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { commandForKey } from '../lib/keyBindings';
+import type { CommandId, KeyBindings } from '../lib/keyBindings';
+
+export interface UseKeyboardControlsOptions {
+  bindings: KeyBindings;
+  onCommand: (command: CommandId) => void;
+  /** Suspend handling, e.g. while a rebinding dialog is capturing keys */
+  enabled?: boolean;
+}
+
+/**
+ * Listen for bound keys on the window and report the matching commands
+ * Keys typed into form fields are ignored.
+ */
+export function useKeyboardControls({ bindings, onCommand, enabled = true }: UseKeyboardControlsOptions) {
+  const onCommandRef = useRef(onCommand);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const command = commandForKey(bindings, event.key);
+      if (!command) return;
+      event.preventDefault();
+      onCommandRef.current(command);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
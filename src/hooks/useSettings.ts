@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from '../lib/settings';
+import type { Settings } from '../lib/settings';
+
+export interface UseSettingsReturn {
+  settings: Settings;
+  updateSettings: (changes: Partial<Settings>) => void;
+  resetSettings: () => void;
+}
+
+/**
+ * Persisted player preferences as React state
+ */
+export function useSettings(): UseSettingsReturn {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    saveSettings(DEFAULT_SETTINGS);
+    setSettings({ ...DEFAULT_SETTINGS });
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+}
@@ -0,0 +1,38 @@
+/**
+ * Persisted achievement unlocks
+ *
+ * Unlocks are shared by every expedition in this browser and never expire.
+ */
+
+import { ACHIEVEMENTS } from '../types/achievements';
+import type { AchievementId } from '../types/achievements';
+
+const STORAGE_KEY = 'hexplorer:achievements';
+
+/** Unlock time (ms since epoch) of every earned achievement */
+export type AchievementUnlocks = Partial<Record<AchievementId, number>>;
+
+/**
+ * Load unlocks, ignoring ids that no longer exist
+ */
+export function loadUnlocks(): AchievementUnlocks {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as AchievementUnlocks) : {};
+    const unlocks: AchievementUnlocks = {};
+    (Object.keys(ACHIEVEMENTS) as AchievementId[]).forEach(id => {
+      if (typeof stored[id] === 'number') unlocks[id] = stored[id];
+    });
+    return unlocks;
+  } catch {
+    return {};
+  }
+}
+
+export function saveUnlocks(unlocks: AchievementUnlocks): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(unlocks));
+  } catch {
+    // Unlocks stay in memory for this session
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Shareable expedition links
+ *
+ * `/game?seed=<seed>&mode=<mode>&difficulty=<preset>` starts a fresh
+ * expedition on an exact world and ruleset, so several players can race
+ * the same map. Custom rules travel as `difficulty=custom&rules=<n,n,…>`.
+ */
+
+import { randomSeed } from './random';
+import { configProblems, difficultyOf } from '../engine/config';
+import { DEFAULT_CONFIG, DIFFICULTIES, DIFFICULTY_PRESETS } from '../types/config';
+import type { DifficultyId, GameConfig, PresetId } from '../types/config';
+import type { ExpeditionOptions } from '../types/game';
+
+export type ExpeditionMode = 'standard' | 'hardcore';
+
+export const EXPEDITION_MODES: ExpeditionMode[] = ['standard', 'hardcore'];
+
+/** Longest seed accepted from a link, matching the menu's seed input */
+export const MAX_SEED_LENGTH = 64;
+
+const DIFFICULTY_IDS = Object.keys(DIFFICULTIES) as DifficultyId[];
+
+/** Custom rules as a compact list of numbers; decodeRules reads the same order */
+function encodeRules(config: GameConfig): string {
+  const { outpostCost } = config;
+  return [
+    config.visionRadius,
+    config.generationRadius,
+    config.pulseRadius,
+    config.pulseCost,
+    config.baseEnergy,
+    config.campRecovery,
+    config.beaconRing,
+    outpostCost.wood,
+    outpostCost.ore,
+    outpostCost.water,
+  ].join(',');
+}
+
+function decodeRules(rules: string): GameConfig | null {
+  const values = rules.split(',').map(Number);
+  if (values.length !== 10) return null;
+  const [
+    visionRadius,
+    generationRadius,
+    pulseRadius,
+    pulseCost,
+    baseEnergy,
+    campRecovery,
+    beaconRing,
+    wood,
+    ore,
+    water,
+  ] = values;
+  const config = {
+    visionRadius,
+    generationRadius,
+    pulseRadius,
+    pulseCost,
+    baseEnergy,
+    campRecovery,
+    outpostCost: { wood, ore, water },
+    beaconRing,
+  };
+  return configProblems(config).length === 0 ? config : null;
+}
+
+export interface ParsedExpeditionLink {
+  options: Extract<ExpeditionOptions, { type: 'new' }>;
+  /** Parameters that were missing or invalid and replaced by defaults */
+  problems: string[];
+}
+
+/**
+ * Absolute link that starts the given expedition
+ */
+export function buildExpeditionLink(seed: string, hardcore: boolean, config: GameConfig): string {
+  const difficulty = difficultyOf(config);
+  const params = new URLSearchParams({
+    seed,
+    mode: hardcore ? 'hardcore' : 'standard',
+    difficulty,
+  });
+  if (difficulty === 'custom') params.set('rules', encodeRules(config));
+  return `${window.location.origin}${import.meta.env.BASE_URL}game?${params}`;
+}
+
+/**
+ * Read expedition options from a query string
+ * Returns null when the query carries no expedition parameters at all.
+ */
+export function parseExpeditionLink(search: string): ParsedExpeditionLink | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('seed') && !params.has('mode')) return null;
+
+  const problems: string[] = [];
+
+  let seed = params.get('seed')?.trim() ?? '';
+  if (!seed) {
+    problems.push('The link has no seed, so a random world was rolled.');
+    seed = randomSeed();
+  } else if (seed.length > MAX_SEED_LENGTH) {
+    problems.push(`Seeds are limited to ${MAX_SEED_LENGTH} characters, so the link's seed was shortened.`);
+    seed = seed.slice(0, MAX_SEED_LENGTH);
+  }
+
+  const mode = params.get('mode') ?? 'standard';
+  const validMode = (EXPEDITION_MODES as string[]).includes(mode);
+  if (!validMode) {
+    problems.push(`Unknown mode "${mode}", playing standard instead.`);
+  }
+
+  let config = DEFAULT_CONFIG;
+  const difficulty = params.get('difficulty') ?? 'normal';
+  if (!(DIFFICULTY_IDS as string[]).includes(difficulty)) {
+    problems.push(`Unknown difficulty "${difficulty}", playing normal instead.`);
+  } else if (difficulty === 'custom') {
+    const custom = decodeRules(params.get('rules') ?? '');
+    if (custom) {
+      config = custom;
+    } else {
+      problems.push("The link's custom rules are invalid, so normal rules were used.");
+    }
+  } else {
+    config = DIFFICULTY_PRESETS[difficulty as PresetId];
+  }
+
+  return {
+    options: { type: 'new', seed, hardcore: validMode && mode === 'hardcore', config },
+    problems,
+  };
+}
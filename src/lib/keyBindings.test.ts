@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_KEY_BINDINGS, UNBOUND, commandForKey, loadKeyBindings } from './keyBindings';
+import type { KeyBindings } from './keyBindings';
+
+const STORAGE_KEY = 'hexplorer:keybindings';
+
+/** In-memory stand-in for the browser's localStorage */
+function memoryStorage(): Pick<Storage, 'getItem' | 'setItem'> {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe('loadKeyBindings', () => {
+  beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('falls back to the defaults when nothing is stored', () => {
+    expect(loadKeyBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  it('keeps a stored key over a clashing default and leaves that command unbound', () => {
+    // Saved before eatRation existed, with its default key taken by pulse
+    const saved: Partial<KeyBindings> = { ...DEFAULT_KEY_BINDINGS, pulse: 'q' };
+    delete saved.eatRation;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+
+    const bindings = loadKeyBindings();
+    expect(bindings.pulse).toBe('q');
+    expect(bindings.eatRation).toBe(UNBOUND);
+    expect(commandForKey(bindings, 'q')).toBe('pulse');
+  });
+
+  it('never binds one key to two commands', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ rest: 'f', undo: 'f' }));
+
+    const bindings = loadKeyBindings();
+    const keys = Object.values(bindings).filter(key => key !== UNBOUND);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(commandForKey(bindings, 'f')).toBe('rest');
+  });
+});
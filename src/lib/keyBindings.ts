@@ -0,0 +1,188 @@
+/**
+ * Keyboard command definitions and persisted bindings
+ *
+ * Each command has at most one key and no key drives two commands. Keys are
+ * stored as normalized KeyboardEvent.key values (single characters lowercased).
+ */
+
+export type CommandId =
+  | 'moveEast'
+  | 'moveNortheast'
+  | 'moveNorthwest'
+  | 'moveWest'
+  | 'moveSouthwest'
+  | 'moveSoutheast'
+  | 'pulse'
+  | 'rest'
+  | 'buildOutpost'
+  | 'purify'
+  | 'toggleCrafting'
+  | 'eatRation'
+  | 'toggleOutposts'
+  | 'toggleReach'
+  | 'togglePause'
+  | 'undo'
+  | 'redo'
+  | 'recenter'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'panUp'
+  | 'panDown'
+  | 'panLeft'
+  | 'panRight';
+
+export type KeyBindings = Record<CommandId, string>;
+
+export interface CommandInfo {
+  id: CommandId;
+  label: string;
+  group: 'Movement' | 'Actions' | 'Camera';
+}
+
+/**
+ * Movement commands in HEX_DIRECTIONS order
+ */
+export const MOVE_COMMANDS: CommandId[] = [
+  'moveEast',
+  'moveNortheast',
+  'moveNorthwest',
+  'moveWest',
+  'moveSouthwest',
+  'moveSoutheast',
+];
+
+export const COMMANDS: CommandInfo[] = [
+  { id: 'moveNorthwest', label: 'Move northwest', group: 'Movement' },
+  { id: 'moveNortheast', label: 'Move northeast', group: 'Movement' },
+  { id: 'moveWest', label: 'Move west', group: 'Movement' },
+  { id: 'moveEast', label: 'Move east', group: 'Movement' },
+  { id: 'moveSouthwest', label: 'Move southwest', group: 'Movement' },
+  { id: 'moveSoutheast', label: 'Move southeast', group: 'Movement' },
+  { id: 'pulse', label: 'Pulse scan', group: 'Actions' },
+  { id: 'rest', label: 'Rest', group: 'Actions' },
+  { id: 'buildOutpost', label: 'Build outpost', group: 'Actions' },
+  { id: 'purify', label: 'Purify with a relic', group: 'Actions' },
+  { id: 'toggleCrafting', label: 'Toggle crafting', group: 'Actions' },
+  { id: 'eatRation', label: 'Eat a ration', group: 'Actions' },
+  { id: 'toggleOutposts', label: 'Toggle outposts', group: 'Actions' },
+  { id: 'toggleReach', label: 'Toggle reach overlay', group: 'Actions' },
+  { id: 'togglePause', label: 'Pause menu', group: 'Actions' },
+  { id: 'undo', label: 'Undo', group: 'Actions' },
+  { id: 'redo', label: 'Redo', group: 'Actions' },
+  { id: 'recenter', label: 'Recenter on player', group: 'Camera' },
+  { id: 'zoomIn', label: 'Zoom in', group: 'Camera' },
+  { id: 'zoomOut', label: 'Zoom out', group: 'Camera' },
+  { id: 'panUp', label: 'Pan up', group: 'Camera' },
+  { id: 'panDown', label: 'Pan down', group: 'Camera' },
+  { id: 'panLeft', label: 'Pan left', group: 'Camera' },
+  { id: 'panRight', label: 'Pan right', group: 'Camera' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveNorthwest: 'w',
+  moveNortheast: 'e',
+  moveWest: 'a',
+  moveEast: 'd',
+  moveSouthwest: 'z',
+  moveSoutheast: 'x',
+  pulse: 'f',
+  rest: 'r',
+  buildOutpost: 'b',
+  purify: 'p',
+  toggleCrafting: 'k',
+  eatRation: 'q',
+  toggleOutposts: 'o',
+  toggleReach: 'v',
+  togglePause: 'Escape',
+  undo: 'u',
+  redo: 'y',
+  recenter: 'c',
+  zoomIn: '=',
+  zoomOut: '-',
+  panUp: 'ArrowUp',
+  panDown: 'ArrowDown',
+  panLeft: 'ArrowLeft',
+  panRight: 'ArrowRight',
+};
+
+/** Placeholder for a command with no key */
+export const UNBOUND = '';
+
+const STORAGE_KEY = 'hexplorer:keybindings';
+
+const KEY_LABELS: Record<string, string> = {
+  [UNBOUND]: '—',
+  ' ': 'Space',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+/**
+ * Normalize a keyboard event's key so bindings ignore Shift and Caps Lock
+ */
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Human-readable label for a bound key
+ */
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/**
+ * Load persisted bindings, filling in defaults for unknown or missing commands
+ * A default that clashes with a stored key (typically a command added since the
+ * bindings were saved) is left unbound rather than stealing the player's key.
+ */
+export function loadKeyBindings(): KeyBindings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<KeyBindings>) : {};
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    const claimed = new Set<string>();
+    COMMANDS.forEach(({ id }) => {
+      const key = stored[id];
+      if (typeof key === 'string' && !claimed.has(key)) {
+        bindings[id] = key;
+        if (key !== UNBOUND) claimed.add(key);
+      }
+    });
+    COMMANDS.forEach(({ id }) => {
+      if (stored[id] !== bindings[id] && claimed.has(bindings[id])) bindings[id] = UNBOUND;
+    });
+    return bindings;
+  } catch {
+    return { ...DEFAULT_KEY_BINDINGS };
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Bindings still apply for this session
+  }
+}
+
+/**
+ * Bind a key to a command; a command already using that key takes over the old key
+ */
+export function rebindKey(bindings: KeyBindings, command: CommandId, key: string): KeyBindings {
+  const next = { ...bindings, [command]: key };
+  const conflict = COMMANDS.find(({ id }) => id !== command && bindings[id] === key);
+  if (conflict) next[conflict.id] = bindings[command];
+  return next;
+}
+
+/**
+ * Find the command bound to a key
+ */
+export function commandForKey(bindings: KeyBindings, key: string): CommandId | null {
+  const normalized = normalizeKey(key);
+  return COMMANDS.find(({ id }) => bindings[id] === normalized)?.id ?? null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Local leaderboard
+ *
+ * Finished and abandoned runs are kept per seed in localStorage so
+ * players can compare attempts on the same world.
+ */
+
+import type { RunSummary } from '../engine/scoring';
+
+const STORAGE_KEY = 'hexplorer:leaderboard';
+
+/** Runs kept per seed; lower scores fall off the board */
+const MAX_ENTRIES_PER_SEED = 10;
+
+export interface LeaderboardEntry {
+  summary: RunSummary;
+  recordedAt: number;
+  /** Missing on entries recorded before runs were identified */
+  runId?: string;
+}
+
+type Leaderboard = Record<string, LeaderboardEntry[]>;
+
+function readLeaderboard(): Leaderboard {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Leaderboard) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Ranked runs for a seed, best first
+ */
+export function leaderboardFor(seed: string): LeaderboardEntry[] {
+  return readLeaderboard()[seed] ?? [];
+}
+
+/**
+ * Add a finished run to its seed's board
+ * A run already on the board keeps its first entry, so undoing and finishing
+ * again cannot rank it twice.
+ * Returns its 1-based rank, or null if it did not make the board or storage failed
+ */
+export function recordRun(runId: string, summary: RunSummary): number | null {
+  const board = readLeaderboard();
+  const existing = board[summary.seed] ?? [];
+  const recorded = existing.findIndex(entry => entry.runId === runId);
+  if (recorded >= 0) return recorded + 1;
+
+  const entry: LeaderboardEntry = { summary, recordedAt: Date.now(), runId };
+  const entries = [...existing, entry]
+    .sort((a, b) => b.summary.score - a.summary.score || a.recordedAt - b.recordedAt)
+    .slice(0, MAX_ENTRIES_PER_SEED);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...board, [summary.seed]: entries }));
+  } catch {
+    return null;
+  }
+
+  const rank = entries.indexOf(entry);
+  return rank >= 0 ? rank + 1 : null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Seeded 2D value noise
+ *
+ * Lattice values come from hashCoords so noise fields are fully
+ * determined by the seed. Layering several octaves (fractal noise)
+ * produces large coherent regions with finer detail on top.
+ */
+
+import { hashCoords } from './random';
+
+export interface FractalNoiseOptions {
+  /** Number of layered octaves */
+  octaves?: number;
+  /** Amplitude multiplier between octaves */
+  persistence?: number;
+  /** Frequency multiplier between octaves */
+  lacunarity?: number;
+}
+
+function latticeValue(seed: number, x: number, y: number): number {
+  return hashCoords(seed, x, y) / 4294967296;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/**
+ * Smoothly interpolated value noise in [0, 1)
+ */
+export function valueNoise(seed: number, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+
+  const top = lerp(latticeValue(seed, x0, y0), latticeValue(seed, x0 + 1, y0), tx);
+  const bottom = lerp(latticeValue(seed, x0, y0 + 1), latticeValue(seed, x0 + 1, y0 + 1), tx);
+  return lerp(top, bottom, ty);
+}
+
+/**
+ * Layered value noise normalized to [0, 1)
+ */
+export function fractalNoise(
+  seed: number,
+  x: number,
+  y: number,
+  { octaves = 4, persistence = 0.5, lacunarity = 2 }: FractalNoiseOptions = {}
+): number {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let maxAmplitude = 0;
+
+  for (let i = 0; i < octaves; i++) {
+    // Offset each octave's seed so layers are uncorrelated
+    total += valueNoise(seed + i * 0x632be5ab, x * frequency, y * frequency) * amplitude;
+    maxAmplitude += amplitude;
+    amplitude *= persistence;
+    frequency *= lacunarity;
+  }
+
+  return total / maxAmplitude;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import type { HexCoord } from '../types/game';
+import type { HexTile, TileType } from '../types/tiles';
+import { entryCost } from '../engine/movement';
+import type { Loadout } from '../engine/movement';
+import { hexDistance, hexKey, hexRing, parseHexKey } from './hexMath';
+import { findPath, floodFill } from './pathfinding';
+import type { StepCost } from './pathfinding';
+
+const ORIGIN: HexCoord = { q: 0, r: 0 };
+
+/** Edge of the test map; everything beyond it is off limits */
+const MAP_RADIUS = 6;
+
+/** Open ground costing 1, with the given hexes priced differently */
+function terrain(overrides: Record<string, number | null> = {}): StepCost {
+  return coord => {
+    if (hexDistance(ORIGIN, coord) > MAP_RADIUS) return null;
+    const key = hexKey(coord.q, coord.r);
+    return key in overrides ? overrides[key] : 1;
+  };
+}
+
+/** Sum of the step costs along a path */
+function pathCost(path: HexCoord[], stepCost: StepCost): number {
+  return path.reduce((total, coord) => total + (stepCost(coord) ?? Infinity), 0);
+}
+
+/** Plains everywhere except a ring of the given terrain around a hex, priced by the engine's movement rules */
+function ringedBy(type: TileType, center: HexCoord, loadout: Loadout): StepCost {
+  const ring = new Set(hexRing(center, 1).map(coord => hexKey(coord.q, coord.r)));
+  return coord => {
+    if (hexDistance(ORIGIN, coord) > MAP_RADIUS) return null;
+    const tile: HexTile = {
+      ...coord,
+      type: ring.has(hexKey(coord.q, coord.r)) ? type : 'plains',
+      revealed: true,
+      explored: false,
+      elevation: 0,
+      biome: 'temperate',
+    };
+    return entryCost(tile, loadout);
+  };
+}
+
+const NO_GEAR: Loadout = { gear: new Set(), perks: new Set() };
+
+describe('findPath', () => {
+  it('walks straight across open ground', () => {
+    const result = findPath(ORIGIN, { q: 3, r: 0 }, terrain());
+
+    expect(result?.cost).toBe(3);
+    expect(result?.path).toEqual([{ q: 1, r: 0 }, { q: 2, r: 0 }, { q: 3, r: 0 }]);
+  });
+
+  it('detours around expensive terrain when that is cheaper', () => {
+    const stepCost = terrain({ [hexKey(1, 0)]: 5, [hexKey(2, 0)]: 5 });
+    const result = findPath(ORIGIN, { q: 3, r: 0 }, stepCost)!;
+
+    expect(result.cost).toBe(4);
+    expect(result.path).toHaveLength(4);
+    expect(result.path[result.path.length - 1]).toEqual({ q: 3, r: 0 });
+    expect(pathCost(result.path, stepCost)).toBe(result.cost);
+  });
+
+  it('picks the cheapest crossing of a band of rough ground', () => {
+    // The band spans the whole map, so every route has to cross it somewhere
+    const band: Record<string, number> = {};
+    for (let r = -MAP_RADIUS; r <= MAP_RADIUS; r++) band[hexKey(2, r)] = 5;
+    band[hexKey(2, 2)] = 1;
+    const stepCost = terrain(band);
+    const result = findPath(ORIGIN, { q: 4, r: 0 }, stepCost)!;
+
+    // Straight through costs 1 + 5 + 1 + 1; walking round by the ford costs 6
+    expect(result.cost).toBe(6);
+    expect(result.path).toContainEqual({ q: 2, r: 2 });
+    expect(pathCost(result.path, stepCost)).toBe(result.cost);
+  });
+
+  it('never steps onto impassable hexes', () => {
+    const walls = Object.fromEntries([-1, 0, 1].map(r => [hexKey(2, r), null]));
+    const stepCost = terrain(walls);
+    const result = findPath(ORIGIN, { q: 4, r: 0 }, stepCost)!;
+
+    result.path.forEach(coord => expect(stepCost(coord)).not.toBeNull());
+    expect(result.cost).toBeGreaterThan(4);
+  });
+
+  it('returns null when the goal is walled off', () => {
+    const goal: HexCoord = { q: 3, r: 0 };
+    const walls = Object.fromEntries(hexRing(goal, 1).map(coord => [hexKey(coord.q, coord.r), null]));
+
+    expect(findPath(ORIGIN, goal, terrain(walls))).toBeNull();
+  });
+
+  it('only crosses gated terrain with the right gear', () => {
+    const goal: HexCoord = { q: 3, r: 0 };
+
+    expect(findPath(ORIGIN, goal, ringedBy('mountain', goal, NO_GEAR))).toBeNull();
+
+    const climber: Loadout = { gear: new Set(['climbingGear']), perks: new Set() };
+    const result = findPath(ORIGIN, goal, ringedBy('mountain', goal, climber));
+    // Plains, then the mountain ring, then the goal
+    expect(result?.cost).toBe(1 + 2 + 1);
+
+    const sailor: Loadout = { gear: new Set(['boat']), perks: new Set() };
+    expect(findPath(ORIGIN, goal, ringedBy('mountain', goal, sailor))).toBeNull();
+  });
+
+  it('gives up once the expansion budget is spent', () => {
+    const goal: HexCoord = { q: 40, r: 0 };
+    let calls = 0;
+    const unbounded: StepCost = () => {
+      calls++;
+      return 1;
+    };
+
+    expect(findPath(ORIGIN, goal, () => 1)).not.toBeNull();
+    expect(findPath(ORIGIN, goal, unbounded, 20)).toBeNull();
+    // Each expansion prices at most six neighbours
+    expect(calls).toBeLessThanOrEqual(20 * 6);
+  });
+
+  it('terminates on an unreachable goal in an endless map', () => {
+    const goal: HexCoord = { q: 3, r: 0 };
+    const ring = new Set(hexRing(goal, 1).map(coord => hexKey(coord.q, coord.r)));
+    const stepCost: StepCost = coord => (ring.has(hexKey(coord.q, coord.r)) ? null : 1);
+
+    expect(findPath(ORIGIN, goal, stepCost, 500)).toBeNull();
+  });
+});
+
+describe('floodFill', () => {
+  it('reaches every hex within the budget on open ground', () => {
+    const costs = floodFill(ORIGIN, 3, terrain());
+
+    // 1 + 6 + 12 + 18 hexes
+    expect(costs.size).toBe(37);
+    expect(costs.get(hexKey(0, 0))).toBe(0);
+    expect(costs.get(hexKey(3, 0))).toBe(3);
+    expect(costs.has(hexKey(4, 0))).toBe(false);
+  });
+
+  it('never includes a hex costing more than the budget', () => {
+    const stepCost = terrain({ [hexKey(1, 0)]: 2, [hexKey(0, 1)]: 3, [hexKey(-1, 0)]: null });
+    const budget = 4;
+    const costs = floodFill(ORIGIN, budget, stepCost);
+
+    costs.forEach(cost => expect(cost).toBeLessThanOrEqual(budget));
+    expect(costs.has(hexKey(-1, 0))).toBe(false);
+    // Each recorded cost is the cheapest way there
+    costs.forEach((cost, key) => {
+      expect(findPath(ORIGIN, parseHexKey(key), stepCost)?.cost).toBe(cost);
+    });
+  });
+
+  it('records the cheapest cost around expensive terrain', () => {
+    const costs = floodFill(ORIGIN, 3, terrain({ [hexKey(1, 0)]: 5 }));
+
+    // Reached around the side instead of through the expensive hex
+    expect(costs.get(hexKey(1, 0))).toBeUndefined();
+    expect(costs.get(hexKey(2, 0))).toBe(3);
+  });
+
+  it('reaches nothing when the first step is out of budget', () => {
+    const rough = Object.fromEntries(hexRing(ORIGIN, 1).map(coord => [hexKey(coord.q, coord.r), 2]));
+    const costs = floodFill(ORIGIN, 1, terrain(rough));
+
+    expect([...costs.keys()]).toEqual([hexKey(0, 0)]);
+  });
+});
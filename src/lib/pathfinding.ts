@@ -0,0 +1,161 @@
+/**
+ * Weighted pathfinding on the hex grid
+ *
+ * Costs are supplied per hex by the caller, so the same search works
+ * for terrain rules, equipment modifiers or hypothetical maps.
+ */
+
+import type { HexCoord } from '../types/game';
+import { hexDistance, hexKey, hexNeighbors } from './hexMath';
+
+/**
+ * Cost to enter a hex, or null if it cannot be entered
+ */
+export type StepCost = (coord: HexCoord) => number | null;
+
+export interface PathResult {
+  /** Hexes to walk through, excluding the start */
+  path: HexCoord[];
+  /** Sum of step costs along the path */
+  cost: number;
+}
+
+interface QueueEntry {
+  coord: HexCoord;
+  priority: number;
+}
+
+/**
+ * Binary min-heap keyed on priority
+ */
+class PriorityQueue {
+  private items: QueueEntry[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(entry: QueueEntry): void {
+    const items = this.items;
+    items.push(entry);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): QueueEntry | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * A* search for the cheapest path between two hexes
+ * Gives up after maxExpansions nodes so unreachable goals on an infinite map terminate
+ */
+export function findPath(
+  start: HexCoord,
+  goal: HexCoord,
+  stepCost: StepCost,
+  maxExpansions = 5000
+): PathResult | null {
+  const goalKey = hexKey(goal.q, goal.r);
+  const startKey = hexKey(start.q, start.r);
+  const costSoFar = new Map<string, number>([[startKey, 0]]);
+  const cameFrom = new Map<string, HexCoord>();
+  const closed = new Set<string>();
+  const frontier = new PriorityQueue();
+  frontier.push({ coord: start, priority: 0 });
+
+  let expansions = 0;
+  while (frontier.size > 0 && expansions < maxExpansions) {
+    const { coord } = frontier.pop()!;
+    const key = hexKey(coord.q, coord.r);
+    if (closed.has(key)) continue;
+    closed.add(key);
+    expansions++;
+
+    if (key === goalKey) {
+      const path: HexCoord[] = [];
+      let current: HexCoord | undefined = coord;
+      while (current && hexKey(current.q, current.r) !== startKey) {
+        path.unshift(current);
+        current = cameFrom.get(hexKey(current.q, current.r));
+      }
+      return { path, cost: costSoFar.get(key) ?? 0 };
+    }
+
+    const baseCost = costSoFar.get(key) ?? 0;
+    hexNeighbors(coord.q, coord.r).forEach(next => {
+      const nextKey = hexKey(next.q, next.r);
+      if (closed.has(nextKey)) return;
+
+      const cost = stepCost(next);
+      if (cost === null) return;
+
+      const total = baseCost + cost;
+      if (total < (costSoFar.get(nextKey) ?? Infinity)) {
+        costSoFar.set(nextKey, total);
+        cameFrom.set(nextKey, coord);
+        // Every step costs at least 1, so hex distance never overestimates
+        frontier.push({ coord: next, priority: total + hexDistance(next, goal) });
+      }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Dijkstra flood fill from a start hex, bounded by a cost budget
+ * Returns the cheapest cost to reach every hex within the budget, keyed by hexKey
+ */
+export function floodFill(start: HexCoord, budget: number, stepCost: StepCost): Map<string, number> {
+  const costs = new Map<string, number>([[hexKey(start.q, start.r), 0]]);
+  const closed = new Set<string>();
+  const frontier = new PriorityQueue();
+  frontier.push({ coord: start, priority: 0 });
+
+  while (frontier.size > 0) {
+    const { coord, priority } = frontier.pop()!;
+    const key = hexKey(coord.q, coord.r);
+    if (closed.has(key)) continue;
+    closed.add(key);
+
+    hexNeighbors(coord.q, coord.r).forEach(next => {
+      const nextKey = hexKey(next.q, next.r);
+      if (closed.has(nextKey)) return;
+
+      const cost = stepCost(next);
+      if (cost === null) return;
+
+      const total = priority + cost;
+      if (total <= budget && total < (costs.get(nextKey) ?? Infinity)) {
+        costs.set(nextKey, total);
+        frontier.push({ coord: next, priority: total });
+      }
+    });
+  }
+
+  return costs;
+}
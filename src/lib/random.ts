@@ -0,0 +1,68 @@
+/**
+ * Seeded pseudo-random utilities
+ *
+ * Everything procedural derives from a world seed so the same seed
+ * always reproduces the same map. Math.random is only used to pick
+ * a fresh seed.
+ */
+
+/**
+ * Hash a string into an unsigned 32-bit integer (FNV-1a)
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mix a seed with integer coordinates into a well-distributed 32-bit value
+ */
+export function hashCoords(seed: number, q: number, r: number): number {
+  let h = seed ^ Math.imul(q, 0x27d4eb2d) ^ Math.imul(r, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG
+ * Returns a generator producing floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a short, human-friendly seed string
+ */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff)
+    .toString(36)
+    .toUpperCase()
+    .padStart(7, '0');
+}
+
+/**
+ * Generate an id for a new expedition, kept by every save of it
+ */
+export function randomRunId(): string {
+  return `${Date.now().toString(36)}-${randomSeed()}`;
+}
+
+/**
+ * Seed shared by everyone playing on the same calendar day (UTC)
+ */
+export function dailySeed(date: Date = new Date()): string {
+  return `daily-${date.toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Save file export and import
+ *
+ * Exports are plain JSON so runs are easy to share and inspect.
+ * Imports also accept gzip-compressed files.
+ */
+
+import { parseSave, SaveFileError } from '../engine/saveValidation';
+import type { SaveData } from '../types/save';
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Suggested file name for an exported save
+ */
+export function saveFileName(save: SaveData): string {
+  const date = new Date(save.savedAt).toISOString().slice(0, 10);
+  const seed = save.game.seed.replace(/[^a-z0-9-]+/gi, '_');
+  return `hexplorer-${seed}-${date}.json`;
+}
+
+/**
+ * Trigger a browser download of a save
+ */
+export function downloadSave(save: SaveData): void {
+  const blob = new Blob([JSON.stringify(save)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = saveFileName(save);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function readText(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+  if (!isGzip) return file.text();
+
+  try {
+    const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+    return await new Response(stream).text();
+  } catch {
+    throw new SaveFileError('The file looks compressed but could not be decompressed.');
+  }
+}
+
+/**
+ * Read, migrate and validate a save from a user-supplied file
+ * Throws SaveFileError with a readable explanation when the file is unusable
+ */
+export async function readSaveFile(file: Blob): Promise<SaveData> {
+  const text = await readText(file);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SaveFileError('The file is not a Hexplorer save (invalid JSON).');
+  }
+
+  return parseSave(data);
+}
@@ -0,0 +1,92 @@
+/**
+ * Local save slot storage
+ *
+ * Saves live in localStorage under one key per slot, with a small
+ * index of summaries so menus can list slots without parsing every map.
+ */
+
+import { summarizeSave } from '../engine/saveFormat';
+import { parseSave } from '../engine/saveValidation';
+import type { SaveData, SaveSummary } from '../types/save';
+
+const SLOT_PREFIX = 'hexplorer:save:';
+const INDEX_KEY = 'hexplorer:saves';
+
+/** Slot written after every action */
+export const AUTOSAVE_ID = 'autosave';
+
+function readIndex(): SaveSummary[] {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    return raw ? (JSON.parse(raw) as SaveSummary[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: SaveSummary[]): void {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * List stored saves, most recent first
+ */
+export function listSaves(): SaveSummary[] {
+  return readIndex().sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Read a save slot, or null if it is missing or unreadable
+ * Older saves are migrated to the current version on the way in
+ */
+export function readSave(id: string): SaveData | null {
+  try {
+    const raw = localStorage.getItem(SLOT_PREFIX + id);
+    return raw ? parseSave(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a save slot
+ * Returns false if storage is unavailable or full
+ */
+export function writeSave(id: string, save: SaveData): boolean {
+  try {
+    localStorage.setItem(SLOT_PREFIX + id, JSON.stringify(save));
+    const index = readIndex().filter(entry => entry.id !== id);
+    index.push(summarizeSave(id, save));
+    writeIndex(index);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove a save slot
+ */
+export function deleteSave(id: string): void {
+  localStorage.removeItem(SLOT_PREFIX + id);
+  writeIndex(readIndex().filter(entry => entry.id !== id));
+}
+
+/**
+ * Slot id for a named manual save
+ * Reuses the slot of an existing save with the same name so saving overwrites it
+ */
+export function slotIdForName(name: string): string {
+  const existing = readIndex().find(entry => entry.id !== AUTOSAVE_ID && entry.name === name);
+  return existing?.id ?? newSlotId();
+}
+
+/**
+ * Slot id not used by any existing save
+ */
+export function newSlotId(): string {
+  const taken = new Set(readIndex().map(entry => entry.id));
+  let stamp = Date.now();
+  while (taken.has(`slot-${stamp.toString(36)}`)) stamp++;
+  return `slot-${stamp.toString(36)}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Player preferences
+ *
+ * Stored per browser and shared by every expedition. Values read back from
+ * storage are checked against their ranges so a bad entry only resets itself.
+ */
+
+import { TILE_PALETTES } from '../types/tiles';
+import type { PaletteId } from '../types/tiles';
+import type { RendererKind } from '../types/game';
+
+export interface Settings {
+  /** Fraction the zoom changes by per wheel step */
+  zoomSensitivity: number;
+  minZoom: number;
+  maxZoom: number;
+  /** Multiplier applied to how long every toast stays on screen */
+  toastScale: number;
+  /** Turns off decorative animation and transitions */
+  reducedMotion: boolean;
+  /** Draw terrain icons on tiles */
+  showIcons: boolean;
+  /** Tile colour scheme */
+  palette: PaletteId;
+  /** Overlay pattern fills so terrain reads without colour */
+  patterns: boolean;
+  /** Map renderer new game screens start with */
+  defaultRenderer: RendererKind;
+}
+
+export type NumericSetting = 'zoomSensitivity' | 'minZoom' | 'maxZoom' | 'toastScale';
+
+export interface SettingRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  zoomSensitivity: 0.1,
+  minZoom: 0.25,
+  maxZoom: 3,
+  toastScale: 1,
+  reducedMotion: false,
+  showIcons: true,
+  palette: 'default',
+  patterns: false,
+  defaultRenderer: 'svg',
+};
+
+/**
+ * Slider bounds for the numeric settings
+ * Zoom limits never cross, since the minimum tops out where the maximum starts.
+ */
+export const SETTING_RANGES: Record<NumericSetting, SettingRange> = {
+  zoomSensitivity: { label: 'Zoom sensitivity', min: 0.02, max: 0.5, step: 0.02 },
+  minZoom: { label: 'Minimum zoom', min: 0.1, max: 1, step: 0.05 },
+  maxZoom: { label: 'Maximum zoom', min: 1, max: 6, step: 0.25 },
+  toastScale: { label: 'Toast duration', min: 0.5, max: 3, step: 0.25 },
+};
+
+export const RENDERERS: RendererKind[] = ['svg', 'canvas'];
+
+const STORAGE_KEY = 'hexplorer:settings';
+
+/**
+ * Load persisted settings, falling back to defaults for missing or invalid values
+ */
+export function loadSettings(): Settings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<Settings>) : {};
+    const settings = { ...DEFAULT_SETTINGS };
+    (Object.keys(SETTING_RANGES) as NumericSetting[]).forEach(key => {
+      const value = stored[key];
+      const { min, max } = SETTING_RANGES[key];
+      if (typeof value === 'number' && value >= min && value <= max) settings[key] = value;
+    });
+    if (typeof stored.reducedMotion === 'boolean') settings.reducedMotion = stored.reducedMotion;
+    if (typeof stored.showIcons === 'boolean') settings.showIcons = stored.showIcons;
+    if (typeof stored.patterns === 'boolean') settings.patterns = stored.patterns;
+    if (stored.palette && stored.palette in TILE_PALETTES) settings.palette = stored.palette;
+    if (stored.defaultRenderer && RENDERERS.includes(stored.defaultRenderer)) {
+      settings.defaultRenderer = stored.defaultRenderer;
+    }
+    return settings;
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: Settings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Settings still apply for this session
+  }
+}
+
+/**
+ * How long to show a toast, given its normal duration in ms
+ * Reads storage directly so callbacks need not depend on settings state.
+ */
+export function toastDuration(duration: number): number {
+  return duration * loadSettings().toastScale;
+}
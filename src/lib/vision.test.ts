@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { HexCoord } from '../types/game';
+import { NIGHT_VISION_PENALTY } from '../engine/clock';
+import { createGameState, visionRadius } from '../engine/gameEngine';
+import { hexKey } from './hexMath';
+import { computeFieldOfView, highGroundBonus } from './vision';
+import type { SightProfile } from './vision';
+
+const ORIGIN: HexCoord = { q: 0, r: 0 };
+
+/** Flat open ground except for the given hexes */
+function terrain(overrides: Record<string, SightProfile> = {}) {
+  return (coord: HexCoord): SightProfile =>
+    overrides[hexKey(coord.q, coord.r)] ?? { elevation: 0, cover: 0 };
+}
+
+describe('computeFieldOfView', () => {
+  it('sees every hex within the radius on open ground', () => {
+    const visible = computeFieldOfView(ORIGIN, 2, terrain());
+
+    // 1 + 6 + 12 hexes
+    expect(visible.size).toBe(19);
+  });
+
+  it('stops exactly at the radius edge', () => {
+    const visible = computeFieldOfView(ORIGIN, 3, terrain());
+
+    expect(visible.has(hexKey(3, 0))).toBe(true);
+    expect(visible.has(hexKey(-3, 3))).toBe(true);
+    expect(visible.has(hexKey(4, 0))).toBe(false);
+    expect(visible.has(hexKey(0, -4))).toBe(false);
+  });
+
+  it('hides hexes behind a ridge', () => {
+    const visible = computeFieldOfView(
+      ORIGIN,
+      3,
+      terrain({ [hexKey(1, 0)]: { elevation: 4, cover: 0 } })
+    );
+
+    expect(visible.has(hexKey(1, 0))).toBe(true);
+    expect(visible.has(hexKey(2, 0))).toBe(false);
+    expect(visible.has(hexKey(3, 0))).toBe(false);
+    // Other directions stay open
+    expect(visible.has(hexKey(-2, 0))).toBe(true);
+  });
+
+  it('hides hexes behind tree canopy', () => {
+    const visible = computeFieldOfView(
+      ORIGIN,
+      3,
+      terrain({ [hexKey(1, 0)]: { elevation: 0, cover: 2 } })
+    );
+
+    expect(visible.has(hexKey(2, 0))).toBe(false);
+  });
+
+  it('keeps neighbours visible even when they block', () => {
+    const walls: Record<string, SightProfile> = {};
+    [[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]].forEach(([q, r]) => {
+      walls[hexKey(q, r)] = { elevation: 5, cover: 0 };
+    });
+    const visible = computeFieldOfView(ORIGIN, 3, terrain(walls));
+
+    expect(visible.size).toBe(7);
+  });
+
+  it('sees over a ridge onto higher ground beyond', () => {
+    const visible = computeFieldOfView(
+      ORIGIN,
+      3,
+      terrain({
+        [hexKey(1, 0)]: { elevation: 2, cover: 0 },
+        [hexKey(2, 0)]: { elevation: 5, cover: 0 },
+      })
+    );
+
+    expect(visible.has(hexKey(2, 0))).toBe(true);
+  });
+
+  it('extends the radius from high ground', () => {
+    const visible = computeFieldOfView(
+      ORIGIN,
+      2,
+      terrain({ [hexKey(0, 0)]: { elevation: 4, cover: 0 } })
+    );
+
+    expect(highGroundBonus(4)).toBe(2);
+    expect(visible.has(hexKey(4, 0))).toBe(true);
+    expect(visible.has(hexKey(5, 0))).toBe(false);
+  });
+
+  it('looks down over obstacles from high ground', () => {
+    const visible = computeFieldOfView(
+      ORIGIN,
+      3,
+      terrain({
+        [hexKey(0, 0)]: { elevation: 5, cover: 0 },
+        [hexKey(1, 0)]: { elevation: 2, cover: 0 },
+      })
+    );
+
+    expect(visible.has(hexKey(2, 0))).toBe(true);
+  });
+});
+
+describe('visionRadius', () => {
+  // Expeditions set out at 06:00 and dusk falls at 20:00
+  const DUSK_TURN = 14;
+
+  it('shortens sight after dark', () => {
+    const state = createGameState('vision-test');
+    const day = visionRadius(state);
+    const night = visionRadius({ ...state, turn: DUSK_TURN });
+
+    expect(day).toBe(state.config.visionRadius);
+    expect(night).toBe(day - NIGHT_VISION_PENALTY);
+
+    const daySight = computeFieldOfView(ORIGIN, day, terrain());
+    const nightSight = computeFieldOfView(ORIGIN, night, terrain());
+    expect(daySight.has(hexKey(day, 0))).toBe(true);
+    expect(nightSight.has(hexKey(day, 0))).toBe(false);
+  });
+
+  it('restores sight at dawn', () => {
+    const state = createGameState('vision-test');
+
+    expect(visionRadius({ ...state, turn: DUSK_TURN - 1 })).toBe(state.config.visionRadius);
+    expect(visionRadius({ ...state, turn: 24 })).toBe(state.config.visionRadius);
+  });
+});
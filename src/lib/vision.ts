@@ -0,0 +1,73 @@
+/**
+ * Line-of-sight field of view on the hex grid
+ *
+ * A hex is visible when the straight sight line from the viewer to it
+ * (via hexLine) clears every hex in between. The sight line is interpolated
+ * from the viewer's height to the target's height, so ridges and tree canopy
+ * taller than the line hide what lies behind them. Viewers on high ground
+ * see further.
+ */
+
+import type { HexCoord } from '../types/game';
+import { hexDistance, hexesInRadius, hexKey, hexLine } from './hexMath';
+
+/**
+ * What a hex contributes to line of sight
+ */
+export interface SightProfile {
+  /** Ground height (0-5) */
+  elevation: number;
+  /** Extra obstruction above the ground, e.g. tree canopy */
+  cover: number;
+}
+
+/** Height of the viewer's eyes above their tile */
+const EYE_HEIGHT = 0.5;
+
+/** Open ground assumed for hexes the lookup knows nothing about */
+const OPEN_GROUND: SightProfile = { elevation: 0, cover: 0 };
+
+/**
+ * Extra vision range granted by standing on high ground
+ */
+export function highGroundBonus(elevation: number): number {
+  return Math.floor(elevation / 2);
+}
+
+/**
+ * Compute every hex visible from an origin
+ * Returns hexKeys of visible hexes; the origin and its neighbours are always visible
+ */
+export function computeFieldOfView(
+  origin: HexCoord,
+  baseRadius: number,
+  profileAt: (coord: HexCoord) => SightProfile | undefined
+): Set<string> {
+  const viewer = profileAt(origin) ?? OPEN_GROUND;
+  const eyeLevel = viewer.elevation + EYE_HEIGHT;
+  const radius = baseRadius + highGroundBonus(viewer.elevation);
+  const visible = new Set<string>();
+
+  hexesInRadius(origin, radius).forEach(target => {
+    const distance = hexDistance(origin, target);
+    if (distance <= 1) {
+      visible.add(hexKey(target.q, target.r));
+      return;
+    }
+
+    const targetHeight = (profileAt(target) ?? OPEN_GROUND).elevation;
+    const line = hexLine(origin, target);
+
+    // Skip the origin and the target itself; only hexes in between can block
+    const blocked = line.slice(1, -1).some((hex, index) => {
+      const t = (index + 1) / distance;
+      const sightHeight = eyeLevel + (targetHeight - eyeLevel) * t;
+      const profile = profileAt(hex) ?? OPEN_GROUND;
+      return profile.elevation + profile.cover > sightHeight;
+    });
+
+    if (!blocked) visible.add(hexKey(target.q, target.r));
+  });
+
+  return visible;
+}
@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowLeft, faLock } from '@fortawesome/free-solid-svg-icons';
+import { achievementProgress } from '../engine/achievements';
+import { deserializeGame } from '../engine/saveFormat';
+import { AUTOSAVE_ID, readSave } from '../lib/saveStorage';
+import { loadUnlocks } from '../lib/achievements';
+import { ACHIEVEMENTS } from '../types/achievements';
+import type { AchievementId } from '../types/achievements';
+
+const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+export function AchievementsPage() {
+  const [unlocks] = useState(loadUnlocks);
+  // Progress is measured against the expedition in progress, if any
+  const current = useMemo(() => {
+    const save = readSave(AUTOSAVE_ID);
+    return save ? deserializeGame(save.game) : null;
+  }, []);
+
+  const unlockedCount = ACHIEVEMENT_IDS.filter(id => unlocks[id] !== undefined).length;
+
+  return (
+    <div className="w-full h-full bg-[#050508] overflow-y-auto">
+      <div className="max-w-2xl mx-auto px-6 py-10">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/">
+            <button
+              className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all border border-white/10"
+              title="Back to Menu"
+            >
+              <FontAwesomeIcon icon={faArrowLeft} className="text-lg" />
+            </button>
+          </Link>
+          <h1 className="text-3xl text-white font-semibold">Achievements</h1>
+          <span className="ml-auto text-white/50 text-sm">
+            {unlockedCount}/{ACHIEVEMENT_IDS.length} unlocked
+          </span>
+        </div>
+        <div className="space-y-3">
+          {ACHIEVEMENT_IDS.map(id => {
+            const info = ACHIEVEMENTS[id];
+            const unlockedAt = unlocks[id];
+            const progress = unlockedAt === undefined && current ? achievementProgress(id, current) : null;
+            return (
+              <div
+                key={id}
+                className={`flex items-start gap-4 p-4 rounded-xl border ${
+                  unlockedAt !== undefined
+                    ? 'bg-amber-300/5 border-amber-300/30'
+                    : 'bg-white/5 border-white/10'
+                }`}
+              >
+                <div
+                  className={`w-10 h-10 shrink-0 rounded-lg flex items-center justify-center ${
+                    unlockedAt !== undefined ? 'bg-amber-300/20 text-amber-300' : 'bg-white/5 text-white/30'
+                  }`}
+                >
+                  <FontAwesomeIcon icon={unlockedAt !== undefined ? info.icon : faLock} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={unlockedAt !== undefined ? 'text-white' : 'text-white/70'}>
+                      {info.label}
+                    </span>
+                    {unlockedAt !== undefined && (
+                      <span className="text-white/40 text-xs">
+                        {new Date(unlockedAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-white/50 text-sm">{info.description}</p>
+                  {progress && (
+                    <div className="mt-2 flex items-center gap-3">
+                      <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                          className="h-full bg-amber-300/70"
+                          style={{ width: `${(progress.current / progress.target) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-white/40 text-xs">
+                        {progress.current}/{progress.target}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Link } from 'wouter';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowLeft } from '@fortawesome/free-solid-svg-icons';
+import { KeyBindingsPanel } from '../components/ui/KeyBindingsPanel';
+import { useKeyBindings } from '../hooks/useKeyBindings';
+
+export function ControlsPage() {
+  const { bindings, rebind, resetBindings } = useKeyBindings();
+
+  return (
+    <div className="w-full h-full bg-[#050508] overflow-y-auto">
+      <div className="max-w-2xl mx-auto px-6 py-10">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/">
+            <button
+              className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all border border-white/10"
+              title="Back to Menu"
+            >
+              <FontAwesomeIcon icon={faArrowLeft} className="text-lg" />
+            </button>
+          </Link>
+          <h1 className="text-3xl text-white font-semibold">Controls</h1>
+        </div>
+        <KeyBindingsPanel bindings={bindings} onRebind={rebind} onReset={resetBindings} />
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,86 @@
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { HexCanvas } from '../components/canvas/HexCanvas';
+import { HexCanvas2D } from '../components/canvas/HexCanvas2D';
+import { Minimap } from '../components/game/Minimap';
+import { CraftingPanel } from '../components/game/CraftingPanel';
+import { PerkPanel } from '../components/game/PerkPanel';
+import { OutpostPanel } from '../components/game/OutpostPanel';
+import { RunSummaryPanel } from '../components/game/RunSummaryPanel';
+import { RulesSummary } from '../components/game/RulesSummary';
+import { TileSwatch } from '../components/game/TileSwatch';
+import { TilePatternDefs } from '../components/canvas/TilePatternDefs';
 import { useCanvasInteraction } from '../hooks/useCanvasInteraction';
+import { useGameEngine } from '../hooks/useGameEngine';
+import { useKeyBindings } from '../hooks/useKeyBindings';
+import { useAchievements } from '../hooks/useAchievements';
+import { useKeyboardControls } from '../hooks/useKeyboardControls';
+import { useSettings } from '../hooks/useSettings';
+import { KeyBindingsPanel } from '../components/ui/KeyBindingsPanel';
+import { SettingsPanel } from '../components/ui/SettingsPanel';
+import { MOVE_COMMANDS, formatKey } from '../lib/keyBindings';
+import type { CommandId } from '../lib/keyBindings';
 import {
   pixelToHex,
   hexRound,
   hexKey,
-  hexesInRadius,
   hexDistance,
-  hexRing,
   parseHexKey,
   hexToPixel,
+  HEX_DIRECTIONS,
 } from '../lib/hexMath';
-import type { HexTile } from '../types/tiles';
-import { TILE_STYLES } from '../types/tiles';
-import type { HexCoord } from '../types/game';
+import { BIOME_STYLES, TILE_PALETTES } from '../types/tiles';
+import { EQUIPMENT } from '../types/equipment';
+import type { EquipmentId } from '../types/equipment';
+import type { RecipeId } from '../types/recipes';
+import { ACHIEVEMENTS } from '../types/achievements';
+import type { AchievementId } from '../types/achievements';
+import { PERKS } from '../types/perks';
+import type { PerkId } from '../types/perks';
+import type {
+  ExpeditionOptions,
+  GameAction,
+  GameEvent,
+  GameState,
+  HexCoord,
+  InventoryState,
+  PlannedRoute,
+  RendererKind,
+} from '../types/game';
+import type { SavedView } from '../types/save';
+import { randomRunId, randomSeed } from '../lib/random';
+import { buildExpeditionLink, parseExpeditionLink } from '../lib/expeditionLinks';
+import type { ParsedExpeditionLink } from '../lib/expeditionLinks';
+import { AUTOSAVE_ID, deleteSave, readSave, slotIdForName, writeSave } from '../lib/saveStorage';
+import { recordRun } from '../lib/leaderboard';
+import { downloadSave } from '../lib/saveFiles';
+import { toastDuration } from '../lib/settings';
+import { createSave, deserializeGame } from '../engine/saveFormat';
+import {
+  PURIFY_COST,
+  PERK_COST,
+  RATION_ENERGY,
+  createGameState,
+  outpostRejection,
+  signalStrength,
+} from '../engine/gameEngine';
+import { describeEvent } from '../engine/eventMessages';
+import { readClock } from '../engine/clock';
+import { loadoutOf, requiredEquipment } from '../engine/movement';
+import { describeHistoryEntry } from '../engine/history';
+import { outpostAt } from '../engine/outposts';
+import { summarizeRun } from '../engine/scoring';
+import { achievementProgress } from '../engine/achievements';
+import { findRouteHazard, planRoute, reachableTiles } from '../engine/routing';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faQuestion,
   faExpand,
   faCompress,
   faHome,
+  faFlag,
+  faTrophy,
+  faPause,
+  faPlay,
   faPlus,
   faMinus,
   faBolt,
@@ -32,171 +93,155 @@ import {
   faMountain,
   faGem,
   faCrosshairs,
+  faSeedling,
+  faFloppyDisk,
+  faFileExport,
+  faRoute,
+  faEye,
+  faLayerGroup,
+  faKeyboard,
+  faXmark,
+  faScrewdriverWrench,
+  faTowerObservation,
+  faRotateLeft,
+  faRotateRight,
+  faLink,
+  faSun,
+  faMoon,
+  faWandMagicSparkles,
 } from '@fortawesome/free-solid-svg-icons';
-import { Link } from 'wouter';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useHistoryState } from 'wouter/use-browser-location';
 import { toast } from 'sonner';
 
-const VISION_RADIUS = 2;
-const GENERATION_RADIUS = 6;
-const PULSE_RADIUS = 4;
-const PULSE_COST = 2;
-const BASE_ENERGY = 12;
-const CAMP_RECOVERY = 4;
+/** Camera movement per pan key press (px) */
+const PAN_STEP = 120;
+
+/** Delay between steps when walking a planned route (ms) */
+const ROUTE_STEP_DELAY = 220;
 
-const OUTPOST_COST = {
-  wood: 2,
-  ore: 1,
-  water: 1,
-};
+/** Id prefix of the legend's pattern defs, distinct from the map's */
+const LEGEND_PATTERN_PREFIX = 'legend';
 
-const BEACON_RING = 12;
-const BEACON_SEED = 1337;
+interface ExpeditionStart {
+  runId: string;
+  game: GameState;
+  view: SavedView | null;
+  actions: GameAction[] | null;
+  /** Problems to report once the page has mounted */
+  notices: string[];
+}
 
 /**
- * Generate a tile using deterministic hash for consistency
+ * Build the starting state for the game page
+ * A shared link wins over navigation state. Without either the autosave
+ * is resumed, so refreshing keeps progress.
  */
-function generateTile(q: number, r: number, beaconCoord: HexCoord): HexTile {
-  const hash = Math.abs((q * 374761393 + r * 668265263) ^ (q * r * 1234567));
-  const random = (hash % 10000) / 10000;
-
-  let type: HexTile['type'] = 'plains';
-  if (random < 0.12) type = 'forest';
-  else if (random < 0.18) type = 'mountain';
-  else if (random < 0.25) type = 'water';
-  else if (random < 0.32) type = 'desert';
-  else if (random < 0.35) type = 'ruins';
-  else if (random < 0.36) type = 'void';
-
-  if (q === 0 && r === 0) {
-    type = 'settlement';
+function startExpedition(
+  options: ExpeditionOptions | null,
+  link: ParsedExpeditionLink | null
+): ExpeditionStart {
+  const launch = link?.options ?? options;
+  if (launch?.type === 'new') {
+    return {
+      runId: randomRunId(),
+      game: createGameState(launch.seed, { hardcore: launch.hardcore, config: launch.config }),
+      view: null,
+      actions: [],
+      notices: link?.problems ?? [],
+    };
   }
 
-  const isBeacon = q === beaconCoord.q && r === beaconCoord.r;
-  if (isBeacon) {
-    type = 'beacon';
+  const save = readSave(options?.type === 'load' ? options.saveId : AUTOSAVE_ID);
+  if (save) {
+    return {
+      runId: save.runId,
+      game: deserializeGame(save.game),
+      view: save.view,
+      actions: save.recording?.actions ?? null,
+      notices: [],
+    };
   }
 
-  const hasCache = !isBeacon && type !== 'void' && type !== 'water' && hash % 37 === 0;
-
-  const movementCost =
-    type === 'mountain'
-      ? 3
-      : type === 'water'
-        ? 3
-        : type === 'forest'
-          ? 2
-          : type === 'desert'
-            ? 2
-            : type === 'ruins'
-              ? 2
-              : 1;
-
   return {
-    q,
-    r,
-    type,
-    revealed: false,
-    explored: false,
-    elevation: Math.floor(hash % 6),
-    biome: 'temperate',
-    movementCost,
-    passable: type !== 'void',
-    feature: isBeacon ? 'beacon' : hasCache ? 'cache' : undefined,
-    featureDiscovered: false,
+    runId: randomRunId(),
+    game: createGameState(randomSeed()),
+    view: null,
+    actions: [],
+    notices:
+      options?.type === 'load'
+        ? ['That save could not be loaded. Starting a new expedition.']
+        : [],
   };
 }
 
-interface PlayerState {
-  position: HexCoord;
-  energy: number;
-  maxEnergy: number;
-}
-
-interface InventoryState {
-  wood: number;
-  water: number;
-  ore: number;
-  relics: number;
-  supplies: number;
-}
-
 export function GamePage() {
+  const expedition = useHistoryState<ExpeditionOptions | null>();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const [start] = useState(() => startExpedition(expedition, parseExpeditionLink(search)));
+
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
-  const [tiles, setTiles] = useState<Map<string, HexTile>>(new Map());
-  const [selectedTile, setSelectedTile] = useState<string | null>(null);
+  const [selectedTile, setSelectedTile] = useState<string | null>(start.view?.selectedTile ?? null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [hasWon, setHasWon] = useState(false);
-
-  const beaconCoord = useMemo<HexCoord>(() => {
-    const ring = hexRing({ q: 0, r: 0 }, BEACON_RING);
-    const index = Math.abs(BEACON_SEED % ring.length);
-    return ring[index];
-  }, []);
-
-  const [player, setPlayer] = useState<PlayerState>({
-    position: { q: 0, r: 0 },
-    energy: BASE_ENERGY,
-    maxEnergy: BASE_ENERGY,
-  });
-
-  const [inventory, setInventory] = useState<InventoryState>({
-    wood: 0,
-    water: 0,
-    ore: 0,
-    relics: 0,
-    supplies: 0,
-  });
-
-  const hydrateTiles = useCallback(
-    (center: HexCoord, radius: number, revealRadius: number) => {
-      setTiles(prev => {
-        const next = new Map(prev);
-        const coords = hexesInRadius(center, radius);
-
-        coords.forEach(coord => {
-          const key = hexKey(coord.q, coord.r);
-          const distance = hexDistance(center, coord);
-          const shouldReveal = distance <= revealRadius;
-          const existing = next.get(key) ?? generateTile(coord.q, coord.r, beaconCoord);
-
-          next.set(key, {
-            ...existing,
-            revealed: existing.revealed || shouldReveal,
-            explored: existing.explored || distance === 0,
-          });
-        });
-
-        return next;
+  const [showVictory, setShowVictory] = useState(start.view?.showVictory ?? false);
+  const [isSavePanelOpen, setIsSavePanelOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [route, setRoute] = useState<PlannedRoute | null>(null);
+  const [isTraveling, setIsTraveling] = useState(false);
+  const [showReach, setShowReach] = useState(false);
+  const { settings, updateSettings, resetSettings } = useSettings();
+  const [renderer, setRenderer] = useState<RendererKind>(settings.defaultRenderer);
+  const [isControlsOpen, setIsControlsOpen] = useState(false);
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [isCraftingOpen, setIsCraftingOpen] = useState(false);
+  const [isPerksOpen, setIsPerksOpen] = useState(false);
+  const [isOutpostsOpen, setIsOutpostsOpen] = useState(false);
+  const [isAbandonOpen, setIsAbandonOpen] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [victoryRank, setVictoryRank] = useState<number | null>(null);
+  const { bindings, rebind, resetBindings } = useKeyBindings();
+  const { unlocks, checkAchievements } = useAchievements();
+
+  const handleEvents = useCallback(
+    (events: GameEvent[], _action: GameAction, state: GameState) => {
+      events.forEach(event => {
+        if (event.type === 'beaconSecured') {
+          setVictoryRank(recordRun(start.runId, summarizeRun(state, 'won')));
+          setShowVictory(true);
+        }
+        const notice = describeEvent(event);
+        if (notice) {
+          toast(notice.message, { duration: toastDuration(notice.duration) });
+        }
       });
-    },
-    [beaconCoord]
-  );
-
-  const revealPulse = useCallback(
-    (center: HexCoord, radius: number) => {
-      setTiles(prev => {
-        const next = new Map(prev);
-        const coords = hexesInRadius(center, radius);
-
-        coords.forEach(coord => {
-          const key = hexKey(coord.q, coord.r);
-          const existing = next.get(key) ?? generateTile(coord.q, coord.r, beaconCoord);
-          next.set(key, {
-            ...existing,
-            revealed: true,
-          });
+      checkAchievements(events, state).forEach(id => {
+        toast(`Achievement unlocked: ${ACHIEVEMENTS[id].label}`, {
+          description: ACHIEVEMENTS[id].description,
+          duration: toastDuration(3200),
         });
-
-        return next;
       });
     },
-    [beaconCoord]
+    [checkAchievements, start.runId]
   );
 
-  useEffect(() => {
-    hydrateTiles(player.position, GENERATION_RADIUS, VISION_RADIUS);
-  }, [hydrateTiles, player.position]);
+  const {
+    state: game,
+    dispatch,
+    undo,
+    redo,
+    history,
+    future,
+    canUndo,
+    canRedo,
+    actions,
+  } = useGameEngine({
+    initialState: () => start.game,
+    initialActions: () => start.actions,
+    onEvents: handleEvents,
+  });
+  const { tiles, player, inventory, equipment, beacon: beaconCoord } = game;
 
   useEffect(() => {
     const updateSize = () => {
@@ -231,115 +276,80 @@ export function GamePage() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
-  const grantExplorationReward = useCallback((tile: HexTile) => {
-    const updates: Partial<InventoryState> = {};
-    let message = '';
-
-    switch (tile.type) {
-      case 'forest':
-        updates.wood = 1;
-        message = 'Gathered timber.';
-        break;
-      case 'water':
-        updates.water = 1;
-        message = 'Filled your canteen.';
-        break;
-      case 'mountain':
-        updates.ore = 1;
-        message = 'Found ore.';
-        break;
-      case 'desert':
-        updates.supplies = 1;
-        message = 'Collected sun-baked supplies.';
-        break;
-      case 'ruins':
-        updates.relics = 1;
-        message = 'Recovered an ancient relic.';
-        break;
-      case 'plains':
-        updates.supplies = 1;
-        message = 'Foraged the open plains.';
-        break;
-      default:
-        break;
-    }
-
-    if (tile.feature === 'cache' && !tile.featureDiscovered) {
-      updates.supplies = (updates.supplies ?? 0) + 2;
-      message = 'Discovered a hidden cache.';
-    }
-
-    const hasUpdates = Object.keys(updates).length > 0;
-    if (!hasUpdates) return;
-
-    setInventory(prev => ({
-      ...prev,
-      wood: prev.wood + (updates.wood ?? 0),
-      water: prev.water + (updates.water ?? 0),
-      ore: prev.ore + (updates.ore ?? 0),
-      relics: prev.relics + (updates.relics ?? 0),
-      supplies: prev.supplies + (updates.supplies ?? 0),
-    }));
-
-    if (message) {
-      toast(message, { duration: 1800 });
-    }
-  }, []);
+  const startTravel = useCallback(
+    (destination: HexCoord) => {
+      // Re-plan against the latest map in case scans revealed something new
+      const planned = planRoute(game, destination);
+      setRoute(planned);
+      if (planned) {
+        setIsTraveling(true);
+      } else {
+        toast('No known route to that tile.', { duration: toastDuration(1600) });
+      }
+    },
+    [game]
+  );
 
   const handleTileClick = useCallback(
     (coords: HexCoord) => {
       const key = hexKey(coords.q, coords.r);
       setSelectedTile(key);
+      if (isTraveling) return;
 
       const distance = hexDistance(player.position, coords);
-      if (distance === 0) return;
-      if (distance > 1) return;
-
-      const existingTile = tiles.get(key) ?? generateTile(coords.q, coords.r, beaconCoord);
-
-      if (!existingTile.passable) {
-        toast('That terrain is impassable.', { duration: 1600 });
+      if (distance <= 1) {
+        setRoute(null);
+        if (distance === 1) dispatch({ type: 'move', to: coords });
         return;
       }
 
-      if (player.energy < existingTile.movementCost) {
-        toast('You are too exhausted to move.', { duration: 1600 });
+      // Clicking the planned destination again confirms the route
+      if (route && hexKey(route.destination.q, route.destination.r) === key) {
+        startTravel(coords);
         return;
       }
 
-      const wasExplored = existingTile.explored;
-
-      setPlayer(prev => ({
-        ...prev,
-        position: coords,
-        energy: Math.max(prev.energy - existingTile.movementCost, 0),
-      }));
-
-      setTiles(prev => {
-        const next = new Map(prev);
-        const current = next.get(key) ?? existingTile;
-        next.set(key, {
-          ...current,
-          revealed: true,
-          explored: true,
-          featureDiscovered:
-            current.feature === 'cache' || current.type === 'beacon' ? true : current.featureDiscovered,
-        });
-        return next;
-      });
-
-      if (!wasExplored) {
-        grantExplorationReward(existingTile);
+      // Distant tiles can only be planned to once they have been seen
+      if (!tiles.get(key)?.revealed) {
+        setRoute(null);
+        return;
       }
 
-      if (existingTile.type === 'beacon' && !hasWon) {
-        setHasWon(true);
-        toast('Beacon secured. The expedition is complete.', { duration: 2400 });
-      }
+      const planned = planRoute(game, coords);
+      if (!planned) toast('No known route to that tile.', { duration: toastDuration(1600) });
+      setRoute(planned);
     },
-    [beaconCoord, grantExplorationReward, hasWon, player.energy, player.position, tiles]
+    [dispatch, game, isTraveling, player.position, route, startTravel, tiles]
   );
 
+  // Walk the confirmed route one step at a time
+  useEffect(() => {
+    if (!isTraveling || !route) return;
+
+    const timer = window.setTimeout(() => {
+      const [step, ...remaining] = route.steps;
+      const result = dispatch({ type: 'move', to: step.coord });
+      const stopped = result.events.some(event => event.type === 'rejected');
+
+      if (!stopped && remaining.length > 0 && findRouteHazard(result.state, remaining)) {
+        toast('Newly revealed terrain blocks the route.', { duration: toastDuration(1800) });
+      } else if (!stopped && remaining.length > 0) {
+        setRoute({
+          ...route,
+          steps: remaining,
+          totalCost: route.totalCost - step.cost,
+          hasUnknown: remaining.some(next => !next.known),
+        });
+        return;
+      }
+
+      setIsTraveling(false);
+      setRoute(null);
+    }, ROUTE_STEP_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [dispatch, isTraveling, route]);
+
   const { viewState, isDragging, handlers, setViewState } = useCanvasInteraction({
     containerRef,
     pixelToHex: (x, y) => {
@@ -347,102 +357,159 @@ export function GamePage() {
       return hexRound(q, r);
     },
     onTileClick: handleTileClick,
+    initialViewState: start.view?.viewState,
+    zoomSensitivity: settings.zoomSensitivity,
+    minZoom: settings.minZoom,
+    maxZoom: settings.maxZoom,
   });
 
+  // Latest snapshot for autosaves triggered outside of render
+  const snapshotRef = useRef<{ game: GameState; view: SavedView; actions: GameAction[] | null }>({
+    game,
+    view: { viewState, selectedTile, showVictory },
+    actions,
+  });
+  useEffect(() => {
+    snapshotRef.current = { game, view: { viewState, selectedTile, showVictory }, actions };
+  });
+
+  const autosave = useCallback(() => {
+    const { game: current, view, actions: log } = snapshotRef.current;
+    writeSave(AUTOSAVE_ID, createSave('Autosave', start.runId, current, view, log));
+  }, [start.runId]);
+
+  useEffect(() => {
+    autosave();
+  }, [autosave, game]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', autosave);
+    return () => window.removeEventListener('pagehide', autosave);
+  }, [autosave]);
+
+  useEffect(() => {
+    // Point refreshes at the autosave instead of restarting the launch options or link
+    navigate('/game', { replace: true, state: { type: 'load', saveId: AUTOSAVE_ID } });
+    start.notices.forEach(notice => toast(notice, { duration: toastDuration(2400) }));
+  }, [navigate, start]);
+
+  const handleAbandon = () => {
+    recordRun(start.runId, summarizeRun(game, 'abandoned'));
+    deleteSave(AUTOSAVE_ID);
+    navigate('/');
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildExpeditionLink(game.seed, game.hardcore, game.config));
+      toast('Expedition link copied. Anyone opening it starts on this world.', { duration: toastDuration(1800) });
+    } catch {
+      toast('Unable to copy the link.', { duration: toastDuration(1800) });
+    }
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim() || `Expedition ${game.seed}`;
+    const saved = writeSave(
+      slotIdForName(name),
+      createSave(name, start.runId, game, { viewState, selectedTile, showVictory }, actions)
+    );
+    toast(saved ? `Saved "${name}".` : 'Unable to save. Storage may be full.', { duration: toastDuration(1800) });
+    if (saved) setIsSavePanelOpen(false);
+  };
+
+  const handleExport = () => {
+    const name = saveName.trim() || `Expedition ${game.seed}`;
+    downloadSave(createSave(name, start.runId, game, { viewState, selectedTile, showVictory }, actions));
+  };
+
   const handleZoomIn = () => {
     setViewState(prev => ({
       ...prev,
-      zoom: Math.min(prev.zoom * 1.25, 3),
+      zoom: Math.min(prev.zoom * 1.25, settings.maxZoom),
     }));
   };
 
   const handleZoomOut = () => {
     setViewState(prev => ({
       ...prev,
-      zoom: Math.max(prev.zoom / 1.25, 0.25),
+      zoom: Math.max(prev.zoom / 1.25, settings.minZoom),
     }));
   };
 
   const handlePulse = () => {
-    if (player.energy < PULSE_COST) {
-      toast('Not enough energy to pulse.', { duration: 1600 });
-      return;
-    }
-
-    setPlayer(prev => ({
-      ...prev,
-      energy: Math.max(prev.energy - PULSE_COST, 0),
-    }));
-    revealPulse(player.position, PULSE_RADIUS);
-    toast('Pulse reveals nearby anomalies.', { duration: 1600 });
+    dispatch({ type: 'pulse' });
   };
 
   const handleRest = () => {
-    const currentKey = hexKey(player.position.q, player.position.r);
-    const currentTile = tiles.get(currentKey);
+    dispatch({ type: 'rest' });
+  };
 
-    if (currentTile?.type === 'settlement') {
-      setPlayer(prev => ({ ...prev, energy: prev.maxEnergy }));
-      toast('Rested at the outpost.', { duration: 1600 });
-      return;
-    }
+  const handleBuildOutpost = () => {
+    if (!selectedTile) return;
+    dispatch({ type: 'buildOutpost', target: parseHexKey(selectedTile) });
+  };
 
-    if (inventory.wood < 1) {
-      toast('You need wood to set up camp.', { duration: 1600 });
-      return;
-    }
+  const handleEquip = (item: EquipmentId) => {
+    const free = equipment.slots.indexOf(null);
+    dispatch({ type: 'equip', item, slot: free >= 0 ? free : activeSlot });
+  };
 
-    setInventory(prev => ({ ...prev, wood: Math.max(prev.wood - 1, 0) }));
-    setPlayer(prev => ({
-      ...prev,
-      energy: Math.min(prev.energy + CAMP_RECOVERY, prev.maxEnergy),
-    }));
-    toast('Campfire restores your energy.', { duration: 1600 });
+  const handleUnequip = (slot: number) => {
+    dispatch({ type: 'unequip', slot });
   };
 
-  const handleBuildOutpost = () => {
-    if (!selectedTile) return;
-    const coords = parseHexKey(selectedTile);
-    const distance = hexDistance(player.position, coords);
-    if (distance > 1) {
-      toast('Choose an adjacent tile to build.', { duration: 1600 });
-      return;
-    }
+  const handlePurify = () => {
+    dispatch({ type: 'purify' });
+  };
 
-    if (
-      inventory.wood < OUTPOST_COST.wood ||
-      inventory.ore < OUTPOST_COST.ore ||
-      inventory.water < OUTPOST_COST.water
-    ) {
-      toast('Not enough resources to build an outpost.', { duration: 1600 });
-      return;
-    }
+  const handleCraft = (recipe: RecipeId) => {
+    dispatch({ type: 'craft', recipe });
+  };
 
-    setInventory(prev => ({
-      ...prev,
-      wood: prev.wood - OUTPOST_COST.wood,
-      ore: prev.ore - OUTPOST_COST.ore,
-      water: prev.water - OUTPOST_COST.water,
-    }));
+  const handleChoosePerk = (perk: PerkId) => {
+    dispatch({ type: 'choosePerk', perk });
+    setIsPerksOpen(false);
+  };
 
-    setTiles(prev => {
-      const next = new Map(prev);
-      const key = hexKey(coords.q, coords.r);
-      const current = next.get(key) ?? generateTile(coords.q, coords.r, beaconCoord);
-      next.set(key, {
-        ...current,
-        type: 'settlement',
-        revealed: true,
-        explored: true,
-        movementCost: 1,
-        passable: true,
-        feature: undefined,
-        featureDiscovered: false,
-      });
-      return next;
-    });
+  const handleEatRation = () => {
+    dispatch({ type: 'eatRation' });
+  };
+
+  const handleDeposit = (resources: Partial<InventoryState>) => {
+    dispatch({ type: 'deposit', resources });
+  };
+
+  const handleWithdraw = (resources: Partial<InventoryState>) => {
+    dispatch({ type: 'withdraw', resources });
+  };
+
+  const handleFastTravel = (to: HexCoord) => {
+    const { events } = dispatch({ type: 'fastTravel', to });
+    if (!events.some(event => event.type === 'fastTraveled')) return;
+
+    setIsOutpostsOpen(false);
+    setIsTraveling(false);
+    setRoute(null);
+    const { x, y } = hexToPixel(to.q, to.r);
+    setViewState(prev => ({ ...prev, x: -x * prev.zoom, y: -y * prev.zoom }));
+  };
+
+  const handleUndo = () => {
+    const entry = undo();
+    if (!entry) return;
+    setIsTraveling(false);
+    setRoute(null);
+    if (entry.diff.hasWon.after && !entry.diff.hasWon.before) setShowVictory(false);
+    toast(`Undid: ${describeHistoryEntry(entry)}`, { duration: toastDuration(1600) });
+  };
 
-    toast('Outpost established.', { duration: 1800 });
+  const handleRedo = () => {
+    const entry = redo();
+    if (!entry) return;
+    setIsTraveling(false);
+    setRoute(null);
+    toast(`Redid: ${describeHistoryEntry(entry)}`, { duration: toastDuration(1600) });
   };
 
   const handleRecenter = () => {
@@ -454,39 +521,131 @@ export function GamePage() {
     }));
   };
 
+  const handlePan = (dx: number, dy: number) => {
+    setViewState(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePause = () => {
+    setIsTraveling(false);
+    setIsPaused(true);
+  };
+
+  // Keyboard commands reuse the same handlers as the mouse
+  const handleCommand = (command: CommandId) => {
+    // Only the pause key works while paused
+    if (isPaused) {
+      if (command === 'togglePause') setIsPaused(false);
+      return;
+    }
+
+    const direction = MOVE_COMMANDS.indexOf(command);
+    if (direction >= 0) {
+      const offset = HEX_DIRECTIONS[direction];
+      handleTileClick({ q: player.position.q + offset.q, r: player.position.r + offset.r });
+      return;
+    }
+
+    switch (command) {
+      case 'pulse':
+        handlePulse();
+        break;
+      case 'rest':
+        handleRest();
+        break;
+      case 'buildOutpost':
+        handleBuildOutpost();
+        break;
+      case 'purify':
+        handlePurify();
+        break;
+      case 'toggleCrafting':
+        setIsCraftingOpen(open => !open);
+        break;
+      case 'eatRation':
+        handleEatRation();
+        break;
+      case 'toggleOutposts':
+        setIsOutpostsOpen(open => !open);
+        break;
+      case 'togglePause':
+        handlePause();
+        break;
+      case 'toggleReach':
+        setShowReach(show => !show);
+        break;
+      case 'undo':
+        handleUndo();
+        break;
+      case 'redo':
+        handleRedo();
+        break;
+      case 'recenter':
+        handleRecenter();
+        break;
+      case 'zoomIn':
+        handleZoomIn();
+        break;
+      case 'zoomOut':
+        handleZoomOut();
+        break;
+      case 'panUp':
+        handlePan(0, PAN_STEP);
+        break;
+      case 'panDown':
+        handlePan(0, -PAN_STEP);
+        break;
+      case 'panLeft':
+        handlePan(PAN_STEP, 0);
+        break;
+      case 'panRight':
+        handlePan(-PAN_STEP, 0);
+        break;
+    }
+  };
+
+  useKeyboardControls({ bindings, onCommand: handleCommand, enabled: !isControlsOpen });
+
+  const MapRenderer = renderer === 'canvas' ? HexCanvas2D : HexCanvas;
+
   const selectedTileData = selectedTile ? tiles.get(selectedTile) : null;
   const displayTileType = selectedTileData
     ? selectedTileData.revealed
       ? selectedTileData.type
       : 'fog'
     : null;
-  const selectedStyle = displayTileType ? TILE_STYLES[displayTileType] : null;
+  const loadout = loadoutOf(game);
+  const requiredGear = selectedTileData?.revealed ? requiredEquipment(selectedTileData) : null;
+  const selectedGear = requiredGear && !loadout.gear.has(requiredGear) ? requiredGear : null;
 
-  const distanceToBeacon = hexDistance(player.position, beaconCoord);
-  const signalStrength = Math.max(0, Math.round(100 - distanceToBeacon * 6));
+  const clock = readClock(game.turn);
+  const palette = TILE_PALETTES[settings.palette][clock.phase];
+  const selectedStyle = displayTileType ? palette[displayTileType] : null;
+  const selectedOutpost = selectedTileData ? outpostAt(game.outposts, selectedTileData) : undefined;
+
+  const signal = signalStrength(game);
 
   const exploredCount = useMemo(
     () => Array.from(tiles.values()).filter(tile => tile.explored).length,
     [tiles]
   );
 
-  const canBuildOutpost = useMemo(() => {
-    if (!selectedTile) return false;
-    const coords = parseHexKey(selectedTile);
-    const distance = hexDistance(player.position, coords);
-    const selected = tiles.get(selectedTile);
-    if (!selected || !selected.passable) return false;
-    if (selected.type === 'settlement' || selected.type === 'beacon') return false;
-
-    return (
-      distance === 1 &&
-      inventory.wood >= OUTPOST_COST.wood &&
-      inventory.ore >= OUTPOST_COST.ore &&
-      inventory.water >= OUTPOST_COST.water
-    );
-  }, [inventory.ore, inventory.water, inventory.wood, player.position, selectedTile, tiles]);
+  // Closest measurable achievement still locked, shown as the next goal
+  const nextGoal = useMemo(() => {
+    const goals = (Object.keys(ACHIEVEMENTS) as AchievementId[])
+      .filter(id => unlocks[id] === undefined)
+      .map(id => ({ id, ...achievementProgress(id, game) }))
+      .filter((goal): goal is { id: AchievementId; current: number; target: number } => goal.target !== undefined);
+    return goals.sort((a, b) => b.current / b.target - a.current / a.target)[0] ?? null;
+  }, [game, unlocks]);
+
+  const reachable = useMemo(() => (showReach ? reachableTiles(game) : null), [game, showReach]);
 
-  const legendTypes: Array<keyof typeof TILE_STYLES> = [
+  const canBuildOutpost = useMemo(
+    () => (selectedTile ? outpostRejection(game, parseHexKey(selectedTile)) === null : false),
+    [game, selectedTile]
+  );
+
+  const legendTypes: Array<keyof typeof palette> = [
     'plains',
     'forest',
     'mountain',
@@ -508,16 +667,41 @@ export function GamePage() {
             <FontAwesomeIcon icon={faHome} className="text-lg" />
           </button>
         </Link>
+        {!game.hasWon && (
+          <button
+            onClick={() => setIsAbandonOpen(true)}
+            className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10 self-start"
+            title="End Expedition"
+          >
+            <FontAwesomeIcon icon={faFlag} className="text-lg" />
+          </button>
+        )}
 
         <div className="bg-black/60 backdrop-blur-md px-4 py-3 rounded-xl border border-white/10 w-64">
           <div className="text-white/40 text-xs uppercase tracking-[0.2em]">Expedition</div>
           <div className="mt-2 text-white/90 text-sm font-medium">Secure the beacon</div>
+          <div className="mt-3 flex items-center justify-between text-white/60 text-sm">
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon
+                icon={clock.phase === 'night' ? faMoon : faSun}
+                className={`text-xs ${clock.phase === 'night' ? 'text-indigo-300' : 'text-amber-300'}`}
+              />
+              Day {clock.day}
+            </span>
+            <span className="text-white/80 font-mono">
+              {String(clock.hour).padStart(2, '0')}:00
+            </span>
+          </div>
+          <div className="mt-1 text-white/40 text-xs">
+            Turn {game.turn} · {clock.phase === 'night' ? 'dawn' : 'nightfall'} in{' '}
+            {clock.turnsUntilChange}h
+          </div>
           <div className="mt-3 flex items-center justify-between text-white/60 text-sm">
             <span className="flex items-center gap-2">
               <FontAwesomeIcon icon={faCompass} className="text-xs" />
               Signal
             </span>
-            <span className="text-white/80">{signalStrength}%</span>
+            <span className="text-white/80">{signal}%</span>
           </div>
           <div className="mt-2 flex items-center justify-between text-white/60 text-sm">
             <span className="flex items-center gap-2">
@@ -526,10 +710,82 @@ export function GamePage() {
             </span>
             <span className="text-white/80">{exploredCount} tiles</span>
           </div>
+          <div className="mt-2 flex items-center justify-between text-white/60 text-sm">
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faSeedling} className="text-xs" />
+              Seed
+            </span>
+            <span className="text-white/80 font-mono truncate max-w-[9rem]" title={game.seed}>
+              {game.seed}
+            </span>
+          </div>
+          <Link
+            href="/achievements"
+            className="mt-3 pt-3 border-t border-white/10 block text-white/60 text-sm hover:text-white/90"
+            title="View Achievements"
+          >
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <FontAwesomeIcon icon={faTrophy} className="text-xs" />
+                Achievements
+              </span>
+              <span className="text-white/80">
+                {Object.keys(unlocks).length}/{Object.keys(ACHIEVEMENTS).length}
+              </span>
+            </div>
+            {nextGoal && (
+              <div className="mt-2">
+                <div className="flex items-center justify-between text-white/40 text-xs">
+                  <span>{ACHIEVEMENTS[nextGoal.id].label}</span>
+                  <span>
+                    {nextGoal.current}/{nextGoal.target}
+                  </span>
+                </div>
+                <div className="mt-1 h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div
+                    className="h-full bg-amber-300/70"
+                    style={{ width: `${(nextGoal.current / nextGoal.target) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </Link>
         </div>
       </div>
 
       <div className="absolute top-4 right-4 z-10 flex gap-2">
+        <button
+          onClick={handlePause}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Pause"
+        >
+          <FontAwesomeIcon icon={faPause} className="text-lg" />
+        </button>
+
+        <button
+          onClick={() => setIsControlsOpen(true)}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Keyboard Controls"
+        >
+          <FontAwesomeIcon icon={faKeyboard} className="text-lg" />
+        </button>
+
+        <button
+          onClick={handleCopyLink}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Copy Link to This World"
+        >
+          <FontAwesomeIcon icon={faLink} className="text-lg" />
+        </button>
+
+        <button
+          onClick={() => setIsSavePanelOpen(open => !open)}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Save Expedition"
+        >
+          <FontAwesomeIcon icon={faFloppyDisk} className="text-lg" />
+        </button>
+
         <button
           onClick={toggleFullscreen}
           className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
@@ -549,6 +805,100 @@ export function GamePage() {
         </a>
       </div>
 
+      <div className="absolute top-20 right-4 z-10 flex flex-col gap-3">
+        {containerSize.width > 0 && (
+          <Minimap
+            tiles={tiles}
+            playerPosition={player.position}
+            beacon={beaconCoord}
+            signalStrength={signal}
+            viewState={viewState}
+            containerWidth={containerSize.width}
+            containerHeight={containerSize.height}
+            onNavigate={({ x, y }) =>
+              setViewState(prev => ({ ...prev, x: -x * prev.zoom, y: -y * prev.zoom }))
+            }
+            palette={palette}
+          />
+        )}
+
+        <div className="bg-black/60 backdrop-blur-md px-4 py-3 rounded-xl border border-white/10 w-64">
+          <div className="flex items-center justify-between">
+            <div className="text-white/40 text-xs uppercase tracking-[0.2em]">History</div>
+            <div className="flex gap-1">
+              <button
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="p-1.5 rounded-md text-white/60 hover:text-white/90 hover:bg-white/10 disabled:text-white/20 disabled:hover:bg-transparent"
+                title={`Undo (${formatKey(bindings.undo)})`}
+              >
+                <FontAwesomeIcon icon={faRotateLeft} className="text-xs" />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="p-1.5 rounded-md text-white/60 hover:text-white/90 hover:bg-white/10 disabled:text-white/20 disabled:hover:bg-transparent"
+                title={`Redo (${formatKey(bindings.redo)})`}
+              >
+                <FontAwesomeIcon icon={faRotateRight} className="text-xs" />
+              </button>
+            </div>
+          </div>
+          {game.hardcore ? (
+            <div className="mt-2 text-red-300/70 text-xs">Hardcore expedition. Every action is final.</div>
+          ) : history.length === 0 && future.length === 0 ? (
+            <div className="mt-2 text-white/40 text-xs">No actions yet.</div>
+          ) : (
+            <ol className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+              {/* Newest first: undone actions on top, then the applied ones */}
+              {future.map(entry => (
+                <li key={entry.id} className="text-white/30 line-through truncate">
+                  {describeHistoryEntry(entry)}
+                </li>
+              ))}
+              {[...history].reverse().map(entry => (
+                <li key={entry.id} className="text-white/70 truncate">
+                  {describeHistoryEntry(entry)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {isSavePanelOpen && (
+        <div className="absolute top-20 right-4 z-20 w-72 bg-black/60 backdrop-blur-md px-4 py-4 rounded-xl border border-white/10 space-y-3">
+          <div className="text-white/40 text-xs uppercase tracking-[0.2em]">Save Expedition</div>
+          <input
+            value={saveName}
+            onChange={event => setSaveName(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') handleSave();
+            }}
+            placeholder={`Expedition ${game.seed}`}
+            maxLength={48}
+            className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white/90 text-sm outline-none focus:border-cyan-400/50"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="flex-1 px-3 py-2 rounded-lg bg-emerald-500/20 text-emerald-100 hover:bg-emerald-500/30 text-sm"
+            >
+              Save
+            </button>
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-sm"
+              title="Download a save file to share"
+            >
+              <FontAwesomeIcon icon={faFileExport} className="text-xs" />
+              Export
+            </button>
+          </div>
+          <div className="text-white/40 text-xs">Progress is also autosaved after every action.</div>
+        </div>
+      )}
+
       <div className="absolute left-4 top-1/2 -translate-y-1/2 z-10 flex flex-col gap-2">
         <button
           onClick={handleZoomIn}
@@ -564,6 +914,13 @@ export function GamePage() {
         >
           <FontAwesomeIcon icon={faMinus} className="text-lg" />
         </button>
+        <button
+          onClick={() => setRenderer(current => (current === 'svg' ? 'canvas' : 'svg'))}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title={`Renderer: ${renderer === 'svg' ? 'SVG' : 'Canvas'} (click to switch)`}
+        >
+          <FontAwesomeIcon icon={faLayerGroup} className="text-lg" />
+        </button>
       </div>
 
       <div
@@ -580,7 +937,7 @@ export function GamePage() {
         onWheel={handlers.handleWheel}
       >
         {containerSize.width > 0 && (
-          <HexCanvas
+          <MapRenderer
             tiles={tiles}
             viewState={viewState}
             selectedTile={selectedTile}
@@ -588,6 +945,12 @@ export function GamePage() {
             containerHeight={containerSize.height}
             onTileClick={handleTileClick}
             playerPosition={player.position}
+            route={route}
+            reachable={reachable}
+            palette={palette}
+            showIcons={settings.showIcons}
+            patterns={settings.patterns}
+            reducedMotion={settings.reducedMotion}
           />
         )}
       </div>
@@ -607,7 +970,20 @@ export function GamePage() {
               <FontAwesomeIcon icon={faGem} className="text-xs" />
               Relics
             </span>
-            <span className="text-white/90">{inventory.relics}</span>
+            <span className="flex items-center gap-2">
+              <span className="text-white/90">{inventory.relics}</span>
+              <button
+                onClick={() => setIsPerksOpen(true)}
+                className={`px-2 py-0.5 rounded-md text-xs transition ${
+                  inventory.relics >= PERK_COST
+                    ? 'bg-violet-500/20 text-violet-100 hover:bg-violet-500/30'
+                    : 'bg-white/5 text-white/40 hover:bg-white/10'
+                }`}
+                title={`Trade ${PERK_COST} relics for a permanent perk`}
+              >
+                Perks
+              </button>
+            </span>
           </div>
           <div className="grid grid-cols-3 gap-2 text-white/60 text-xs pt-2 border-t border-white/10">
             <div className="flex items-center gap-2">
@@ -623,7 +999,85 @@ export function GamePage() {
               {inventory.ore}
             </div>
           </div>
-          <div className="text-white/50 text-xs">Supplies: {inventory.supplies}</div>
+          <div className="flex items-center justify-between text-white/50 text-xs">
+            <span>Rations: {inventory.supplies}</span>
+            <button
+              onClick={handleEatRation}
+              disabled={inventory.supplies < 1 || player.energy >= player.maxEnergy}
+              className="px-2 py-0.5 rounded-md bg-white/5 hover:bg-white/10 text-white/60 disabled:text-white/20 disabled:hover:bg-white/5"
+              title={`Eat a ration for +${RATION_ENERGY} energy (${formatKey(bindings.eatRation)}). One is eaten every dawn.`}
+            >
+              Eat
+            </button>
+          </div>
+          {game.perks.length > 0 && (
+            <div className="pt-2 border-t border-white/10">
+              <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Perks</div>
+              <div className="flex flex-wrap gap-1">
+                {game.perks.map(perk => (
+                  <span
+                    key={perk}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-violet-500/10 text-violet-100/80 text-xs"
+                    title={PERKS[perk].description}
+                  >
+                    <FontAwesomeIcon icon={PERKS[perk].icon} />
+                    {PERKS[perk].label}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="pt-2 border-t border-white/10">
+            <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Equipment</div>
+            <div className="grid grid-cols-2 gap-2">
+              {equipment.slots.map((item, slot) => (
+                <div
+                  key={slot}
+                  onClick={() => setActiveSlot(slot)}
+                  className={`relative flex items-center gap-2 px-2 py-2 rounded-lg text-xs cursor-pointer border ${
+                    activeSlot === slot ? 'border-cyan-400/40' : 'border-white/10'
+                  } ${item ? 'bg-white/10 text-white/80' : 'bg-white/5 text-white/30'}`}
+                  title={item ? EQUIPMENT[item].description : 'Empty slot'}
+                >
+                  {item ? (
+                    <>
+                      <FontAwesomeIcon icon={EQUIPMENT[item].icon} />
+                      <span className="truncate">{EQUIPMENT[item].label}</span>
+                      <button
+                        onClick={event => {
+                          event.stopPropagation();
+                          handleUnequip(slot);
+                        }}
+                        className="ml-auto text-white/40 hover:text-white/90"
+                        title="Unequip"
+                      >
+                        <FontAwesomeIcon icon={faXmark} />
+                      </button>
+                    </>
+                  ) : (
+                    'Empty'
+                  )}
+                </div>
+              ))}
+            </div>
+            {equipment.owned.some(item => !equipment.slots.includes(item)) && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {equipment.owned
+                  .filter(item => !equipment.slots.includes(item))
+                  .map(item => (
+                    <button
+                      key={item}
+                      onClick={() => handleEquip(item)}
+                      className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-white/60 text-xs"
+                      title={`Equip: ${EQUIPMENT[item].description}`}
+                    >
+                      <FontAwesomeIcon icon={EQUIPMENT[item].icon} />
+                      {EQUIPMENT[item].label}
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="mt-4 bg-black/60 backdrop-blur-md px-4 py-4 rounded-xl border border-white/10 space-y-2">
@@ -636,7 +1090,7 @@ export function GamePage() {
               <FontAwesomeIcon icon={faCrosshairs} className="text-xs" />
               Pulse Scan
             </span>
-            <span className="text-white/40">-{PULSE_COST} energy</span>
+            <span className="text-white/40">-{game.config.pulseCost} energy</span>
           </button>
           <button
             onClick={handleRest}
@@ -646,7 +1100,7 @@ export function GamePage() {
               <FontAwesomeIcon icon={faCampground} className="text-xs" />
               Rest
             </span>
-            <span className="text-white/40">+{CAMP_RECOVERY}</span>
+            <span className="text-white/40">+{game.config.campRecovery}</span>
           </button>
           <button
             onClick={handleBuildOutpost}
@@ -661,7 +1115,59 @@ export function GamePage() {
               <FontAwesomeIcon icon={faHammer} className="text-xs" />
               Build Outpost
             </span>
-            <span className="text-white/40">2 wood 1 ore 1 water</span>
+            <span className="text-white/40">
+              {game.config.outpostCost.wood} wood {game.config.outpostCost.ore} ore {game.config.outpostCost.water} water
+            </span>
+          </button>
+          <button
+            onClick={handlePurify}
+            disabled={inventory.relics < PURIFY_COST}
+            className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition ${
+              inventory.relics >= PURIFY_COST
+                ? 'bg-fuchsia-500/15 text-fuchsia-100 hover:bg-fuchsia-500/25'
+                : 'bg-white/5 text-white/40 cursor-not-allowed'
+            }`}
+            title="Cleanse corruption and void around you"
+          >
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faWandMagicSparkles} className="text-xs" />
+              Purify
+            </span>
+            <span className="text-white/40">-{PURIFY_COST} relic</span>
+          </button>
+          <button
+            onClick={() => setIsOutpostsOpen(true)}
+            className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-sm"
+          >
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faTowerObservation} className="text-xs" />
+              Outposts
+            </span>
+            <span className="text-white/40">{game.outposts.length}</span>
+          </button>
+          <button
+            onClick={() => setIsCraftingOpen(true)}
+            className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-sm"
+          >
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faScrewdriverWrench} className="text-xs" />
+              Crafting
+            </span>
+            <span className="text-white/40">{formatKey(bindings.toggleCrafting)}</span>
+          </button>
+          <button
+            onClick={() => setShowReach(show => !show)}
+            className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition ${
+              showReach
+                ? 'bg-cyan-500/20 text-cyan-100 hover:bg-cyan-500/30'
+                : 'bg-white/5 hover:bg-white/10 text-white/70'
+            }`}
+          >
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faEye} className="text-xs" />
+              Show Reach
+            </span>
+            <span className="text-white/40">{formatKey(bindings.toggleReach)}</span>
           </button>
           <button
             onClick={handleRecenter}
@@ -675,6 +1181,52 @@ export function GamePage() {
         </div>
       </div>
 
+      {route && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-10">
+          <div className="bg-black/60 backdrop-blur-md px-4 py-3 rounded-xl border border-amber-400/30 flex items-center gap-4">
+            <FontAwesomeIcon icon={faRoute} className="text-amber-300" />
+            <div>
+              <div className="text-white/90 text-sm">
+                {route.steps.length} steps · {route.hasUnknown ? '~' : ''}
+                {route.totalCost} energy
+              </div>
+              <div className="text-white/40 text-xs">
+                {isTraveling
+                  ? 'Traveling…'
+                  : route.totalCost > player.energy
+                    ? 'Not enough energy for the full route'
+                    : route.hasUnknown
+                      ? 'Dashed steps cross unexplored ground'
+                      : 'Click the destination again to travel'}
+              </div>
+            </div>
+            {isTraveling ? (
+              <button
+                onClick={() => setIsTraveling(false)}
+                className="px-3 py-2 rounded-lg bg-white/10 text-white/80 hover:bg-white/20 text-sm"
+              >
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => startTravel(route.destination)}
+                  className="px-3 py-2 rounded-lg bg-amber-500/20 text-amber-100 hover:bg-amber-500/30 text-sm"
+                >
+                  Travel
+                </button>
+                <button
+                  onClick={() => setRoute(null)}
+                  className="px-3 py-2 rounded-lg bg-white/5 text-white/60 hover:bg-white/10 text-sm"
+                >
+                  Cancel
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10">
         <div className="bg-black/60 backdrop-blur-md px-6 py-3 rounded-xl border border-white/10 flex items-center gap-6">
           <div className="text-white/60 text-base font-mono">
@@ -683,6 +1235,9 @@ export function GamePage() {
           <div className="text-white/60 text-base font-mono">
             <span className="text-white/40">Tiles:</span> {tiles.size}
           </div>
+          <div className="text-white/60 text-base font-mono">
+            <span className="text-white/40">Renderer:</span> {renderer === 'svg' ? 'SVG' : 'Canvas'}
+          </div>
           {selectedTileData && selectedStyle && (
             <div className="flex items-center gap-3 pl-4 border-l border-white/20">
               <FontAwesomeIcon
@@ -691,9 +1246,13 @@ export function GamePage() {
                 className="text-lg"
               />
               <div>
-                <div className="text-white/90 text-base font-medium">{selectedStyle.label}</div>
+                <div className="text-white/90 text-base font-medium">
+                  {selectedOutpost ? selectedOutpost.name : selectedStyle.label}
+                </div>
                 <div className="text-white/50 text-sm">
                   {selectedTileData.q}, {selectedTileData.r}
+                  {selectedTileData.revealed && ` · ${BIOME_STYLES[selectedTileData.biome].label}`}
+                  {selectedGear && ` · needs ${EQUIPMENT[selectedGear].label.toLowerCase()}`}
                 </div>
               </div>
             </div>
@@ -703,16 +1262,25 @@ export function GamePage() {
 
       <div className="absolute bottom-6 right-4 z-10">
         <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl border border-white/10 w-64">
-          <div className="text-white/40 text-sm mb-3 font-medium">Legend</div>
+          <div className="flex items-baseline justify-between mb-3">
+            <span className="text-white/40 text-sm font-medium">Legend</span>
+            {settings.palette !== 'default' && (
+              <span className="text-white/30 text-xs">{TILE_PALETTES[settings.palette].label}</span>
+            )}
+          </div>
+          {settings.patterns && (
+            <svg width={0} height={0} className="absolute">
+              <TilePatternDefs palette={palette} idPrefix={LEGEND_PATTERN_PREFIX} />
+            </svg>
+          )}
           <div className="grid grid-cols-2 gap-x-4 gap-y-2">
             {legendTypes.map(type => {
-              const style = TILE_STYLES[type];
+              const style = palette[type];
               return (
                 <div key={style.id} className="flex items-center gap-2">
-                  <FontAwesomeIcon
-                    icon={style.icon}
-                    style={{ color: style.iconColor }}
-                    className="text-sm w-4"
+                  <TileSwatch
+                    style={style}
+                    patternPrefix={settings.patterns ? LEGEND_PATTERN_PREFIX : undefined}
                   />
                   <span className="text-white/60 text-sm">{style.label}</span>
                 </div>
@@ -722,13 +1290,150 @@ export function GamePage() {
         </div>
       </div>
 
-      {hasWon && (
+      {isCraftingOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-6 w-[28rem] max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Crafting</div>
+              <button
+                onClick={() => setIsCraftingOpen(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <CraftingPanel state={game} onCraft={handleCraft} />
+          </div>
+        </div>
+      )}
+
+      {isOutpostsOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-6 w-[32rem] max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Outposts</div>
+              <button
+                onClick={() => setIsOutpostsOpen(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <OutpostPanel
+              state={game}
+              onTravel={handleFastTravel}
+              onDeposit={handleDeposit}
+              onWithdraw={handleWithdraw}
+            />
+          </div>
+        </div>
+      )}
+
+      {isPerksOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-6 w-[28rem] max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Relic Perks</div>
+              <button
+                onClick={() => setIsPerksOpen(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <PerkPanel state={game} onChoose={handleChoosePerk} />
+          </div>
+        </div>
+      )}
+
+      {isPaused && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-6 w-[28rem] max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Paused</div>
+              <button
+                onClick={() => setIsPaused(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <RulesSummary config={game.config} />
+            <div className="mt-6 pt-6 border-t border-white/10">
+              <div className="text-white/90 font-semibold mb-3">Settings</div>
+              <SettingsPanel settings={settings} onChange={updateSettings} onReset={resetSettings} />
+            </div>
+            <button
+              onClick={() => setIsPaused(false)}
+              className="mt-6 w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-cyan-500/20 text-cyan-100 hover:bg-cyan-500/30"
+            >
+              <FontAwesomeIcon icon={faPlay} />
+              Resume
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isControlsOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-6 w-[40rem] max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Controls</div>
+              <button
+                onClick={() => setIsControlsOpen(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <KeyBindingsPanel bindings={bindings} onRebind={rebind} onReset={resetBindings} />
+          </div>
+        </div>
+      )}
+
+      {isAbandonOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-8 text-center w-[26rem]">
+            <div className="text-3xl text-white font-semibold">End Expedition?</div>
+            <p className="text-white/60 mt-3 text-sm">
+              The run is scored as abandoned and recorded on this seed's leaderboard. It cannot be resumed.
+            </p>
+            <div className="mt-6 pt-6 border-t border-white/10">
+              <RunSummaryPanel summary={summarizeRun(game, 'abandoned')} />
+            </div>
+            <div className="mt-6 flex items-center justify-center gap-3">
+              <button
+                onClick={() => setIsAbandonOpen(false)}
+                className="px-4 py-2 rounded-lg bg-white/10 text-white/80 hover:bg-white/20"
+              >
+                Keep Going
+              </button>
+              <button
+                onClick={handleAbandon}
+                className="px-4 py-2 rounded-lg bg-red-500/20 text-red-100 hover:bg-red-500/30"
+              >
+                Abandon Expedition
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showVictory && (
         <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-20 flex items-center justify-center">
-          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-8 text-center max-w-md">
+          <div className="bg-[#0a0a12] border border-white/10 rounded-2xl p-8 text-center w-[26rem]">
             <div className="text-3xl text-white font-semibold">Beacon Secured</div>
             <p className="text-white/60 mt-3 text-sm">
               The signal is yours. Return to base or keep exploring to build outposts and gather relics.
             </p>
+            <div className="mt-6 pt-6 border-t border-white/10">
+              <RunSummaryPanel summary={summarizeRun(game, 'won')} rank={victoryRank} />
+            </div>
             <div className="mt-6 flex items-center justify-center gap-3">
               <Link href="/">
                 <button className="px-4 py-2 rounded-lg bg-white/10 text-white/80 hover:bg-white/20">
@@ -736,7 +1441,7 @@ export function GamePage() {
                 </button>
               </Link>
               <button
-                onClick={() => setHasWon(false)}
+                onClick={() => setShowVictory(false)}
                 className="px-4 py-2 rounded-lg bg-emerald-500/20 text-emerald-100 hover:bg-emerald-500/30"
               >
                 Keep Exploring
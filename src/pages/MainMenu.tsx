@@ -1,19 +1,163 @@
+import { useMemo, useRef, useState } from 'react';
 import { Link } from 'wouter';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faPlay, faQuestion } from '@fortawesome/free-solid-svg-icons';
+import {
+  faPlay,
+  faQuestion,
+  faDice,
+  faForward,
+  faFolderOpen,
+  faTrash,
+  faXmark,
+  faFileExport,
+  faFileImport,
+  faKeyboard,
+  faFilm,
+  faLink,
+  faTrophy,
+  faMedal,
+  faGear,
+} from '@fortawesome/free-solid-svg-icons';
+import { toast } from 'sonner';
+import { dailySeed, randomSeed } from '../lib/random';
+import { MAX_SEED_LENGTH, buildExpeditionLink } from '../lib/expeditionLinks';
+import { AUTOSAVE_ID, deleteSave, listSaves, newSlotId, readSave, writeSave } from '../lib/saveStorage';
+import { downloadSave, readSaveFile } from '../lib/saveFiles';
+import { leaderboardFor } from '../lib/leaderboard';
+import { toastDuration } from '../lib/settings';
+import { useSettings } from '../hooks/useSettings';
+import { SaveFileError } from '../engine/saveValidation';
+import { configProblems } from '../engine/config';
+import { RulesEditor } from '../components/ui/RulesEditor';
+import { DEFAULT_CONFIG, DIFFICULTIES, DIFFICULTY_PRESETS } from '../types/config';
+import type { DifficultyId, GameConfig } from '../types/config';
+import type { ExpeditionOptions } from '../types/game';
+import type { ReplayOptions } from './ReplayPage';
+
+type SeedMode = 'random' | 'daily' | 'custom';
+
+const SEED_MODES: Array<{ id: SeedMode; label: string }> = [
+  { id: 'random', label: 'Random' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const DIFFICULTY_IDS = Object.keys(DIFFICULTIES) as DifficultyId[];
+
+/** Best runs listed under the seed picker */
+const LEADERBOARD_ROWS = 5;
 
 export function MainMenu() {
+  const [seedMode, setSeedMode] = useState<SeedMode>('random');
+  const [rolledSeed, setRolledSeed] = useState(randomSeed);
+  const [customSeed, setCustomSeed] = useState('');
+  const [hardcore, setHardcore] = useState(false);
+  const { settings } = useSettings();
+  const [difficulty, setDifficulty] = useState<DifficultyId>('normal');
+  const [customConfig, setCustomConfig] = useState<GameConfig>(DEFAULT_CONFIG);
+  const [saves, setSaves] = useState(listSaves);
+  const [isLoadOpen, setIsLoadOpen] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const autosave = saves.find(save => save.id === AUTOSAVE_ID);
+  const manualSaves = saves.filter(save => save.id !== AUTOSAVE_ID);
+
+  const handleDelete = (id: string) => {
+    deleteSave(id);
+    setSaves(listSaves());
+  };
+
+  const handleExport = (id: string) => {
+    const save = readSave(id);
+    if (save) {
+      downloadSave(save);
+    } else {
+      toast('That save could not be read.', { duration: toastDuration(1800) });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const save = await readSaveFile(file);
+      if (!writeSave(newSlotId(), save)) {
+        toast('Unable to store the import. Storage may be full.', { duration: toastDuration(2400) });
+        return;
+      }
+      setSaves(listSaves());
+      toast(`Imported "${save.name}".`, { duration: toastDuration(1800) });
+    } catch (error) {
+      const message =
+        error instanceof SaveFileError ? error.message : 'The file could not be read.';
+      toast(`Import failed: ${message}`, { duration: toastDuration(4000) });
+    }
+  };
+
+  const seed =
+    seedMode === 'daily'
+      ? dailySeed()
+      : seedMode === 'custom'
+        ? customSeed.trim() || rolledSeed
+        : rolledSeed;
+  const config = difficulty === 'custom' ? customConfig : DIFFICULTY_PRESETS[difficulty];
+  const ruleProblems = configProblems(config);
+  const expedition: ExpeditionOptions = { type: 'new', seed, hardcore, config };
+  const leaderboard = useMemo(() => leaderboardFor(seed).slice(0, LEADERBOARD_ROWS), [seed]);
+
+  const pulse = settings.reducedMotion ? '' : 'animate-pulse';
+
+  const handleCopyLink = async () => {
+    if (ruleProblems.length > 0) {
+      toast('Fix the custom rules before sharing them.', { duration: toastDuration(1800) });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(buildExpeditionLink(seed, hardcore, config));
+      toast('Expedition link copied.', { duration: toastDuration(1800) });
+    } catch {
+      toast('Unable to copy the link.', { duration: toastDuration(1800) });
+    }
+  };
+
   return (
     <div className="w-full h-full bg-[#050508] flex flex-col items-center justify-center relative overflow-hidden">
-      {/* Animated background gradient */}
+      {/* Animated background gradient, held still for reduced motion */}
       <div className="absolute inset-0 opacity-30">
-        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-green-500/20 rounded-full blur-3xl animate-pulse" />
-        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-cyan-500/20 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '1s' }} />
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-purple-500/20 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '2s' }} />
+        <div className={`absolute top-1/4 left-1/4 w-96 h-96 bg-green-500/20 rounded-full blur-3xl ${pulse}`} />
+        <div className={`absolute bottom-1/4 right-1/4 w-80 h-80 bg-cyan-500/20 rounded-full blur-3xl ${pulse}`} style={{ animationDelay: '1s' }} />
+        <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-purple-500/20 rounded-full blur-3xl ${pulse}`} style={{ animationDelay: '2s' }} />
       </div>
 
       {/* Help Icon */}
-      <div className="absolute top-6 right-6">
+      <div className="absolute top-6 right-6 flex gap-2">
+        <Link
+          href="/controls"
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Controls"
+        >
+          <FontAwesomeIcon icon={faKeyboard} className="text-lg" />
+        </Link>
+        <Link
+          href="/settings"
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Settings"
+        >
+          <FontAwesomeIcon icon={faGear} className="text-lg" />
+        </Link>
+        <Link
+          href="/replay"
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Replays"
+        >
+          <FontAwesomeIcon icon={faFilm} className="text-lg" />
+        </Link>
+        <Link
+          href="/achievements"
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Achievements"
+        >
+          <FontAwesomeIcon icon={faMedal} className="text-lg" />
+        </Link>
         <a
           href="https://lukesteuber.com"
           target="_blank"
@@ -37,17 +181,263 @@ export function MainMenu() {
         </p>
       </div>
 
+      {/* Resume */}
+      <div className="relative z-10 mb-6 flex gap-3">
+        {autosave && (
+          <Link href="/game" state={{ type: 'load', saveId: AUTOSAVE_ID } satisfies ExpeditionOptions}>
+            <button className="flex items-center gap-3 px-6 py-3 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 text-lg transition-all border border-white/10">
+              <FontAwesomeIcon icon={faForward} />
+              Continue
+              <span className="text-white/40 text-sm font-mono">{autosave.seed}</span>
+            </button>
+          </Link>
+        )}
+        <button
+          onClick={() => setIsLoadOpen(true)}
+          className="flex items-center gap-3 px-6 py-3 rounded-xl bg-white/5 hover:bg-white/10 text-white/80 text-lg transition-all border border-white/10"
+        >
+          <FontAwesomeIcon icon={faFolderOpen} />
+          Load
+        </button>
+      </div>
+
+      {/* World Seed */}
+      <div className="relative z-10 mb-10 w-96 bg-black/40 backdrop-blur-md rounded-xl border border-white/10 p-4">
+        <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-3">World Seed</div>
+        <div className="grid grid-cols-3 gap-2">
+          {SEED_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => setSeedMode(mode.id)}
+              className={`px-3 py-2 rounded-lg text-sm transition ${
+                seedMode === mode.id
+                  ? 'bg-cyan-500/20 text-cyan-100'
+                  : 'bg-white/5 text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        <div className="mt-3 flex items-center gap-2">
+          {seedMode === 'custom' ? (
+            <input
+              value={customSeed}
+              onChange={event => setCustomSeed(event.target.value)}
+              placeholder={rolledSeed}
+              maxLength={MAX_SEED_LENGTH}
+              className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white/90 text-sm font-mono outline-none focus:border-cyan-400/50"
+            />
+          ) : (
+            <div className="flex-1 px-3 py-2 rounded-lg bg-white/5 text-white/80 text-sm font-mono truncate">
+              {seed}
+            </div>
+          )}
+          {seedMode === 'random' && (
+            <button
+              onClick={() => setRolledSeed(randomSeed())}
+              className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white/90"
+              title="Reroll Seed"
+            >
+              <FontAwesomeIcon icon={faDice} />
+            </button>
+          )}
+          <button
+            onClick={handleCopyLink}
+            className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white/90"
+            title="Copy Link"
+          >
+            <FontAwesomeIcon icon={faLink} />
+          </button>
+        </div>
+        <label className="mt-3 flex items-center gap-2 text-sm text-white/60 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={hardcore}
+            onChange={event => setHardcore(event.target.checked)}
+            className="accent-red-400"
+          />
+          Hardcore
+          <span className="text-white/30 text-xs">no undo</span>
+        </label>
+        <div className="mt-4 pt-3 border-t border-white/10">
+          <div className="text-white/40 text-xs uppercase tracking-[0.2em] mb-2">Difficulty</div>
+          <div className="grid grid-cols-4 gap-2">
+            {DIFFICULTY_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setDifficulty(id)}
+                className={`px-2 py-2 rounded-lg text-sm transition ${
+                  difficulty === id
+                    ? 'bg-cyan-500/20 text-cyan-100'
+                    : 'bg-white/5 text-white/60 hover:bg-white/10'
+                }`}
+              >
+                {DIFFICULTIES[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-white/40 text-xs">{DIFFICULTIES[difficulty].description}</p>
+          {difficulty === 'custom' && (
+            <div className="mt-3">
+              <RulesEditor config={customConfig} onChange={setCustomConfig} />
+              {ruleProblems.length > 0 && (
+                <ul className="mt-3 space-y-1 text-red-300/80 text-xs">
+                  {ruleProblems.map(problem => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+        {leaderboard.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-white/10">
+            <div className="flex items-center gap-2 text-white/40 text-xs uppercase tracking-[0.2em] mb-2">
+              <FontAwesomeIcon icon={faTrophy} />
+              Best on this seed
+            </div>
+            <ol className="space-y-1 text-sm">
+              {leaderboard.map(({ summary, recordedAt }, index) => (
+                <li key={recordedAt} className="flex items-center gap-3 text-white/70">
+                  <span className="w-4 text-white/40 text-xs">{index + 1}</span>
+                  <span className="flex-1 font-mono text-white/90">{summary.score}</span>
+                  <span className="text-white/40 text-xs">{summary.turns} turns</span>
+                  <span
+                    className={`text-xs ${summary.outcome === 'won' ? 'text-emerald-300/80' : 'text-white/30'}`}
+                  >
+                    {summary.outcome === 'won' ? 'secured' : 'abandoned'}
+                    {summary.hardcore && ' · hardcore'}
+                    {summary.difficulty &&
+                      summary.difficulty !== 'normal' &&
+                      ` · ${DIFFICULTIES[summary.difficulty].label.toLowerCase()}`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+
       {/* Play Button */}
-      <Link href="/game">
-        <button className="relative group flex items-center gap-4 bg-gradient-to-r from-green-500 to-cyan-500 text-black px-10 py-5 rounded-xl text-2xl font-semibold transition-all transform hover:scale-105 active:scale-95 shadow-lg shadow-green-500/20 hover:shadow-green-500/40">
+      <Link
+        href="/game"
+        state={expedition}
+        onClick={event => {
+          if (ruleProblems.length > 0) event.preventDefault();
+        }}
+      >
+        <button
+          disabled={ruleProblems.length > 0}
+          className="relative group flex items-center gap-4 bg-gradient-to-r from-green-500 to-cyan-500 text-black px-10 py-5 rounded-xl text-2xl font-semibold transition-all transform hover:scale-105 active:scale-95 shadow-lg shadow-green-500/20 hover:shadow-green-500/40 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100"
+        >
           <FontAwesomeIcon icon={faPlay} className="text-xl" />
-          Start Exploring
+          New Expedition
           
           {/* Glow effect */}
           <div className="absolute inset-0 bg-gradient-to-r from-green-500 to-cyan-500 rounded-xl blur-xl opacity-50 group-hover:opacity-75 transition-opacity -z-10" />
         </button>
       </Link>
 
+      {/* Load Dialog */}
+      {isLoadOpen && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-20 flex items-center justify-center">
+          <div
+            className={`bg-[#0a0a12] border rounded-2xl p-6 w-[28rem] max-h-[70vh] flex flex-col transition-colors ${
+              isDropTarget ? 'border-cyan-400/60' : 'border-white/10'
+            }`}
+            onDragOver={event => {
+              event.preventDefault();
+              setIsDropTarget(true);
+            }}
+            onDragLeave={() => setIsDropTarget(false)}
+            onDrop={event => {
+              event.preventDefault();
+              setIsDropTarget(false);
+              const file = event.dataTransfer.files[0];
+              if (file) handleImport(file);
+            }}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-white/90 text-xl font-semibold">Load Expedition</div>
+              <button
+                onClick={() => setIsLoadOpen(false)}
+                className="p-2 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10"
+                title="Close"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </div>
+            <div className="overflow-y-auto space-y-2">
+              {manualSaves.length === 0 && (
+                <div className="text-white/40 text-sm">No saved expeditions yet.</div>
+              )}
+              {manualSaves.map(save => (
+                <div
+                  key={save.id}
+                  className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 border border-white/10"
+                >
+                  <Link
+                    href="/game"
+                    state={{ type: 'load', saveId: save.id } satisfies ExpeditionOptions}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="text-white/90 text-sm font-medium truncate">{save.name}</div>
+                    <div className="text-white/40 text-xs">
+                      {new Date(save.savedAt).toLocaleString()} · {save.explored} explored ·{' '}
+                      {DIFFICULTIES[save.difficulty ?? 'normal'].label}
+                      {save.hasWon && ' · beacon secured'}
+                    </div>
+                  </Link>
+                  {save.replayable && (
+                    <Link
+                      href="/replay"
+                      state={{ saveId: save.id } satisfies ReplayOptions}
+                      className="p-2 rounded-lg text-white/40 hover:text-white/90 hover:bg-white/10"
+                      title="Watch Replay"
+                    >
+                      <FontAwesomeIcon icon={faFilm} className="text-sm" />
+                    </Link>
+                  )}
+                  <button
+                    onClick={() => handleExport(save.id)}
+                    className="p-2 rounded-lg text-white/40 hover:text-white/90 hover:bg-white/10"
+                    title="Export Save"
+                  >
+                    <FontAwesomeIcon icon={faFileExport} className="text-sm" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(save.id)}
+                    className="p-2 rounded-lg text-white/40 hover:text-red-300 hover:bg-white/10"
+                    title="Delete Save"
+                  >
+                    <FontAwesomeIcon icon={faTrash} className="text-sm" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="mt-4 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 text-sm border border-dashed border-white/20"
+            >
+              <FontAwesomeIcon icon={faFileImport} />
+              Import a save file or drop one here
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.gz,application/json,application/gzip"
+              className="hidden"
+              onChange={event => {
+                const file = event.target.files?.[0];
+                if (file) handleImport(file);
+                event.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       <div className="absolute bottom-8 text-white/30 text-base font-light">
         Phase 2: Expedition Loop Prototype
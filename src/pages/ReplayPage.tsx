@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'wouter';
+import { useHistoryState } from 'wouter/use-browser-location';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faArrowLeft,
+  faPlay,
+  faPause,
+  faBackwardStep,
+  faForwardStep,
+  faCircleCheck,
+  faTriangleExclamation,
+  faPlus,
+  faMinus,
+  faFilm,
+} from '@fortawesome/free-solid-svg-icons';
+import { HexCanvas } from '../components/canvas/HexCanvas';
+import { hexToPixel } from '../lib/hexMath';
+import { listSaves, readSave } from '../lib/saveStorage';
+import { buildReplay, replayStateAt } from '../engine/replay';
+import { phaseAt } from '../engine/clock';
+import { describeAction } from '../engine/history';
+import { useSettings } from '../hooks/useSettings';
+import { TILE_PALETTES } from '../types/tiles';
+
+/** Delay between actions at 1× speed (ms) */
+const STEP_DELAY = 400;
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * Navigation state for the replay route
+ */
+export interface ReplayOptions {
+  saveId: string;
+}
+
+export function ReplayPage() {
+  const options = useHistoryState<ReplayOptions | null>();
+  const [saveId, setSaveId] = useState(options?.saveId ?? null);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const { settings } = useSettings();
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+
+  const save = useMemo(() => (saveId ? readSave(saveId) : null), [saveId]);
+  const replay = useMemo(() => (save?.recording ? buildReplay(save.recording) : null), [save]);
+  const replayableSaves = useMemo(() => listSaves().filter(summary => summary.replayable), []);
+
+  const total = replay?.recording.actions.length ?? 0;
+  const state = useMemo(() => (replay ? replayStateAt(replay, step) : null), [replay, step]);
+
+  useEffect(() => {
+    const updateSize = () => {
+      if (containerRef.current) {
+        setContainerSize({
+          width: containerRef.current.clientWidth,
+          height: containerRef.current.clientHeight,
+        });
+      }
+    };
+
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, [replay]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = window.setTimeout(() => {
+      const next = Math.min(step + 1, total);
+      setStep(next);
+      if (next >= total) setIsPlaying(false);
+    }, STEP_DELAY / speed);
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, speed, step, total]);
+
+  const selectSave = (id: string) => {
+    setSaveId(id);
+    setStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlaying = () => {
+    if (!isPlaying && step >= total) setStep(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  const scrubTo = (target: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(target, total)));
+  };
+
+  if (!replay || !state || !save) {
+    return (
+      <div className="w-full h-full bg-[#050508] overflow-y-auto">
+        <div className="max-w-2xl mx-auto px-6 py-10">
+          <div className="flex items-center gap-4 mb-8">
+            <Link href="/">
+              <button
+                className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all border border-white/10"
+                title="Back to Menu"
+              >
+                <FontAwesomeIcon icon={faArrowLeft} className="text-lg" />
+              </button>
+            </Link>
+            <h1 className="text-3xl text-white font-semibold">Replays</h1>
+          </div>
+          {saveId && (
+            <div className="mb-4 text-amber-200/80 text-sm">
+              That expedition has no recording to replay.
+            </div>
+          )}
+          <div className="space-y-2">
+            {replayableSaves.length === 0 && (
+              <div className="text-white/40 text-sm">No recorded expeditions yet.</div>
+            )}
+            {replayableSaves.map(summary => (
+              <button
+                key={summary.id}
+                onClick={() => selectSave(summary.id)}
+                className="w-full flex items-center gap-3 px-4 py-3 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-left"
+              >
+                <FontAwesomeIcon icon={faFilm} className="text-white/40" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-white/90 text-sm font-medium truncate">{summary.name}</div>
+                  <div className="text-white/40 text-xs">
+                    {new Date(summary.savedAt).toLocaleString()} · {summary.seed}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Keep the camera centered on the player
+  const { x, y } = hexToPixel(state.player.position.q, state.player.position.r);
+  const viewState = { x: -x * zoom, y: -y * zoom, zoom };
+  const currentAction = step > 0 ? replay.recording.actions[step - 1] : null;
+
+  return (
+    <div className="w-full h-full bg-[#050508] relative overflow-hidden">
+      <div className="absolute top-4 left-4 z-10 flex flex-col gap-3">
+        <Link href="/">
+          <button
+            className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+            title="Back to Menu"
+          >
+            <FontAwesomeIcon icon={faArrowLeft} className="text-lg" />
+          </button>
+        </Link>
+
+        <div className="bg-black/60 backdrop-blur-md px-4 py-3 rounded-xl border border-white/10 w-72">
+          <div className="text-white/40 text-xs uppercase tracking-[0.2em]">Replay</div>
+          <div className="mt-2 text-white/90 text-sm font-medium truncate">{save.name}</div>
+          <div className="mt-1 text-white/50 text-xs font-mono truncate">{replay.recording.seed}</div>
+          {replay.verified ? (
+            <div className="mt-3 flex items-center gap-2 text-emerald-300/90 text-xs">
+              <FontAwesomeIcon icon={faCircleCheck} />
+              Final state verified · {replay.finalHash}
+            </div>
+          ) : (
+            <div className="mt-3 flex items-start gap-2 text-red-300/90 text-xs">
+              <FontAwesomeIcon icon={faTriangleExclamation} className="mt-0.5" />
+              <span>
+                {replay.divergedAt !== null
+                  ? `Playback diverged at action ${replay.divergedAt + 1}.`
+                  : `Final state mismatch: recorded ${replay.recording.finalHash}, replayed ${replay.finalHash}.`}
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="absolute left-4 top-1/2 -translate-y-1/2 z-10 flex flex-col gap-2">
+        <button
+          onClick={() => setZoom(current => Math.min(current * 1.25, 3))}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Zoom In"
+        >
+          <FontAwesomeIcon icon={faPlus} className="text-lg" />
+        </button>
+        <button
+          onClick={() => setZoom(current => Math.max(current / 1.25, 0.25))}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all backdrop-blur-sm border border-white/10"
+          title="Zoom Out"
+        >
+          <FontAwesomeIcon icon={faMinus} className="text-lg" />
+        </button>
+      </div>
+
+      <div ref={containerRef} className="w-full h-full">
+        {containerSize.width > 0 && (
+          <HexCanvas
+            tiles={state.tiles}
+            viewState={viewState}
+            selectedTile={null}
+            containerWidth={containerSize.width}
+            containerHeight={containerSize.height}
+            onTileClick={() => {}}
+            playerPosition={state.player.position}
+            palette={TILE_PALETTES[settings.palette][phaseAt(state.turn)]}
+            patterns={settings.patterns}
+            showIcons={settings.showIcons}
+            reducedMotion={settings.reducedMotion}
+          />
+        )}
+      </div>
+
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 w-[36rem]">
+        <div className="bg-black/60 backdrop-blur-md px-5 py-4 rounded-xl border border-white/10 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-white/80">{currentAction ? describeAction(currentAction) : 'Expedition start'}</span>
+            <span className="text-white/50 font-mono">
+              {step}/{total} · {state.player.energy}⚡
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={total}
+            value={step}
+            onChange={event => scrubTo(Number(event.target.value))}
+            className="w-full accent-cyan-400"
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => scrubTo(step - 1)}
+                className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70"
+                title="Previous Action"
+              >
+                <FontAwesomeIcon icon={faBackwardStep} />
+              </button>
+              <button
+                onClick={togglePlaying}
+                className="px-4 py-2 rounded-lg bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-100"
+                title={isPlaying ? 'Pause' : 'Play'}
+              >
+                <FontAwesomeIcon icon={isPlaying ? faPause : faPlay} />
+              </button>
+              <button
+                onClick={() => scrubTo(step + 1)}
+                className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70"
+                title="Next Action"
+              >
+                <FontAwesomeIcon icon={faForwardStep} />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {SPEEDS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  className={`px-2 py-1 rounded-md text-xs font-mono transition ${
+                    speed === option
+                      ? 'bg-cyan-500/20 text-cyan-100'
+                      : 'bg-white/5 text-white/50 hover:bg-white/10'
+                  }`}
+                >
+                  {option}×
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
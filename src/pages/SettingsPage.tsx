@@ -0,0 +1,35 @@
+import { Link } from 'wouter';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowLeft, faKeyboard } from '@fortawesome/free-solid-svg-icons';
+import { SettingsPanel } from '../components/ui/SettingsPanel';
+import { useSettings } from '../hooks/useSettings';
+
+export function SettingsPage() {
+  const { settings, updateSettings, resetSettings } = useSettings();
+
+  return (
+    <div className="w-full h-full bg-[#050508] overflow-y-auto">
+      <div className="max-w-2xl mx-auto px-6 py-10">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/">
+            <button
+              className="p-3 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white/90 transition-all border border-white/10"
+              title="Back to Menu"
+            >
+              <FontAwesomeIcon icon={faArrowLeft} className="text-lg" />
+            </button>
+          </Link>
+          <h1 className="text-3xl text-white font-semibold">Settings</h1>
+          <Link
+            href="/controls"
+            className="ml-auto flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white/90 text-sm border border-white/10"
+          >
+            <FontAwesomeIcon icon={faKeyboard} />
+            Key bindings
+          </Link>
+        </div>
+        <SettingsPanel settings={settings} onChange={updateSettings} onReset={resetSettings} />
+      </div>
+    </div>
+  );
+}
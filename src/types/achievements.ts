@@ -0,0 +1,110 @@
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import {
+  faBoxOpen,
+  faMap,
+  faPersonRunning,
+  faMountainSun,
+  faTowerObservation,
+  faGem,
+  faWandMagicSparkles,
+  faMoon,
+  faScrewdriverWrench,
+  faShoePrints,
+  faSkull,
+} from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Achievement identifiers
+ */
+export type AchievementId =
+  | 'firstCache'
+  | 'cartographer'
+  | 'restless'
+  | 'highGround'
+  | 'network'
+  | 'relicHunter'
+  | 'cleanser'
+  | 'nightWatch'
+  | 'tinkerer'
+  | 'wayfarer'
+  | 'ironWill';
+
+/**
+ * Achievement display data
+ * The conditions that unlock each one live in the engine's achievement rules
+ */
+export interface AchievementInfo {
+  id: AchievementId;
+  label: string;
+  icon: IconDefinition;
+  description: string;
+}
+
+export const ACHIEVEMENTS: Record<AchievementId, AchievementInfo> = {
+  firstCache: {
+    id: 'firstCache',
+    label: 'Finders Keepers',
+    icon: faBoxOpen,
+    description: 'Discover a hidden cache'
+  },
+  cartographer: {
+    id: 'cartographer',
+    label: 'Cartographer',
+    icon: faMap,
+    description: 'Explore 100 tiles in one expedition'
+  },
+  restless: {
+    id: 'restless',
+    label: 'No Rest for the Wicked',
+    icon: faPersonRunning,
+    description: 'Secure the beacon without resting once'
+  },
+  highGround: {
+    id: 'highGround',
+    label: 'The High Ground',
+    icon: faMountainSun,
+    description: 'Stand on hilltop ruins just below the mountain line'
+  },
+  network: {
+    id: 'network',
+    label: 'Network Builder',
+    icon: faTowerObservation,
+    description: 'Build 3 outposts in one expedition'
+  },
+  relicHunter: {
+    id: 'relicHunter',
+    label: 'Relic Hunter',
+    icon: faGem,
+    description: 'Find 5 relics in one expedition'
+  },
+  cleanser: {
+    id: 'cleanser',
+    label: 'Cleanser',
+    icon: faWandMagicSparkles,
+    description: 'Purify corrupted land'
+  },
+  nightWatch: {
+    id: 'nightWatch',
+    label: 'Night Watch',
+    icon: faMoon,
+    description: 'See the dawn after your first night'
+  },
+  tinkerer: {
+    id: 'tinkerer',
+    label: 'Tinkerer',
+    icon: faScrewdriverWrench,
+    description: 'Craft something at an outpost or on the trail'
+  },
+  wayfarer: {
+    id: 'wayfarer',
+    label: 'Wayfarer',
+    icon: faShoePrints,
+    description: 'Travel 100 hexes in one expedition'
+  },
+  ironWill: {
+    id: 'ironWill',
+    label: 'Iron Will',
+    icon: faSkull,
+    description: 'Secure the beacon on a hardcore expedition'
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Rules an expedition is played under
+ * Chosen on the main menu and fixed for the whole run.
+ */
+export interface GameConfig {
+  /** Sight radius around the player in daylight */
+  visionRadius: number;
+  /** Radius of terrain generated around the player as they move */
+  generationRadius: number;
+  pulseRadius: number;
+  pulseCost: number;
+  /** Starting and maximum energy */
+  baseEnergy: number;
+  /** Energy recovered by resting at a campfire */
+  campRecovery: number;
+  outpostCost: {
+    wood: number;
+    ore: number;
+    water: number;
+  };
+  /** Distance from the base camp to the beacon */
+  beaconRing: number;
+}
+
+/**
+ * Difficulty presets, plus hand-tuned rules
+ */
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'custom';
+
+export type PresetId = Exclude<DifficultyId, 'custom'>;
+
+export interface DifficultyInfo {
+  id: DifficultyId;
+  label: string;
+  description: string;
+}
+
+export const DIFFICULTIES: Record<DifficultyId, DifficultyInfo> = {
+  easy: {
+    id: 'easy',
+    label: 'Easy',
+    description: 'More energy, wider sight and a closer beacon'
+  },
+  normal: {
+    id: 'normal',
+    label: 'Normal',
+    description: 'The expedition as designed'
+  },
+  hard: {
+    id: 'hard',
+    label: 'Hard',
+    description: 'Scarce energy, short sight and a distant beacon'
+  },
+  custom: {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Tune every rule yourself'
+  }
+};
+
+export const DIFFICULTY_PRESETS: Record<PresetId, GameConfig> = {
+  easy: {
+    visionRadius: 3,
+    generationRadius: 7,
+    pulseRadius: 5,
+    pulseCost: 1,
+    baseEnergy: 16,
+    campRecovery: 6,
+    outpostCost: { wood: 1, ore: 1, water: 1 },
+    beaconRing: 9,
+  },
+  normal: {
+    visionRadius: 2,
+    generationRadius: 6,
+    pulseRadius: 4,
+    pulseCost: 2,
+    baseEnergy: 12,
+    campRecovery: 4,
+    outpostCost: { wood: 2, ore: 1, water: 1 },
+    beaconRing: 12,
+  },
+  hard: {
+    visionRadius: 2,
+    generationRadius: 6,
+    pulseRadius: 3,
+    pulseCost: 3,
+    baseEnergy: 9,
+    campRecovery: 3,
+    outpostCost: { wood: 3, ore: 2, water: 2 },
+    beaconRing: 16,
+  },
+};
+
+export const DEFAULT_CONFIG = DIFFICULTY_PRESETS.normal;
+
+/** Rules that are a single number, as opposed to the outpost cost */
+export type ScalarRule = Exclude<keyof GameConfig, 'outpostCost'>;
+
+export interface RuleLimits {
+  label: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Allowed range of each rule on a custom expedition
+ */
+export const RULE_LIMITS: Record<ScalarRule, RuleLimits> = {
+  visionRadius: { label: 'Vision radius', min: 1, max: 5 },
+  generationRadius: { label: 'Generation radius', min: 2, max: 10 },
+  pulseRadius: { label: 'Pulse radius', min: 1, max: 10 },
+  pulseCost: { label: 'Pulse cost', min: 0, max: 10 },
+  baseEnergy: { label: 'Energy', min: 1, max: 40 },
+  campRecovery: { label: 'Camp recovery', min: 1, max: 20 },
+  beaconRing: { label: 'Beacon distance', min: 4, max: 40 },
+};
+
+/** Allowed range of each resource in the outpost cost */
+export const OUTPOST_COST_LIMITS = { min: 0, max: 10 };
@@ -0,0 +1,55 @@
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import { faMountain, faSailboat, faLightbulb } from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Equipment identifiers
+ */
+export type EquipmentId =
+  | 'climbingGear'
+  | 'boat'
+  | 'lantern';
+
+/**
+ * Equipment display data
+ * What each item does lives in the engine's movement and vision rules
+ */
+export interface EquipmentInfo {
+  id: EquipmentId;
+  label: string;
+  icon: IconDefinition;
+  description: string;
+}
+
+/**
+ * Items the player carries and which of them are in use
+ */
+export interface EquipmentState {
+  /** Everything found or crafted so far */
+  owned: EquipmentId[];
+  /** Equipped items; only these affect the rules */
+  slots: Array<EquipmentId | null>;
+}
+
+/** Number of items that can be equipped at once */
+export const EQUIPMENT_SLOTS = 2;
+
+export const EQUIPMENT: Record<EquipmentId, EquipmentInfo> = {
+  climbingGear: {
+    id: 'climbingGear',
+    label: 'Climbing Gear',
+    icon: faMountain,
+    description: 'Ropes and pitons for scaling mountains'
+  },
+  boat: {
+    id: 'boat',
+    label: 'Boat',
+    icon: faSailboat,
+    description: 'A light hull for crossing open water'
+  },
+  lantern: {
+    id: 'lantern',
+    label: 'Lantern',
+    icon: faLightbulb,
+    description: 'Keeps your full sight range after dark'
+  }
+};
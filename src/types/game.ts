@@ -1,3 +1,9 @@
+import type { HexTile, TileType } from './tiles';
+import type { EquipmentId, EquipmentState } from './equipment';
+import type { RecipeId } from './recipes';
+import type { PerkId } from './perks';
+import type { GameConfig } from './config';
+
 /**
  * Canvas view state (pan/zoom)
  */
@@ -7,6 +13,11 @@ export interface ViewState {
   zoom: number;
 }
 
+/**
+ * Available map renderers
+ */
+export type RendererKind = 'svg' | 'canvas';
+
 /**
  * Hex coordinate type
  */
@@ -14,3 +25,192 @@ export interface HexCoord {
   q: number;
   r: number;
 }
+
+/**
+ * Player position and energy pool
+ */
+export interface PlayerState {
+  position: HexCoord;
+  energy: number;
+  maxEnergy: number;
+}
+
+/**
+ * Resources carried by the expedition
+ */
+export interface InventoryState {
+  wood: number;
+  water: number;
+  ore: number;
+  relics: number;
+  supplies: number;
+}
+
+/**
+ * Running totals kept for the end-of-run summary
+ */
+export interface RunStats {
+  /** Energy paid for actions, ignoring passive recovery */
+  energySpent: number;
+  hexesTraveled: number;
+  cachesFound: number;
+  relicsFound: number;
+  rests: number;
+}
+
+/**
+ * A settlement held by the expedition
+ */
+export interface Outpost {
+  name: string;
+  position: HexCoord;
+  /** Resources produced here or deposited by the player */
+  stock: InventoryState;
+  /** Turn the outpost was founded */
+  founded: number;
+}
+
+/**
+ * Complete, self-contained state of an expedition
+ * Contains no UI concerns (camera, selection) so it can be saved, replayed or simulated
+ */
+export interface GameState {
+  /** World seed the map is generated from */
+  seed: string;
+  tiles: Map<string, HexTile>;
+  player: PlayerState;
+  inventory: InventoryState;
+  equipment: EquipmentState;
+  /** Permanent perks bought with relics */
+  perks: PerkId[];
+  /** Settlements held by the expedition, starting with the base camp */
+  outposts: Outpost[];
+  beacon: HexCoord;
+  hasWon: boolean;
+  /** Hardcore runs cannot undo actions */
+  hardcore: boolean;
+  config: GameConfig;
+  /** Accepted actions so far; each one takes an hour */
+  turn: number;
+  stats: RunStats;
+}
+
+/**
+ * Time of day on the expedition clock
+ */
+export type DayPhase = 'day' | 'night';
+
+/**
+ * Player intents handled by the game engine
+ */
+export type GameAction =
+  | { type: 'move'; to: HexCoord }
+  | { type: 'pulse' }
+  | { type: 'rest' }
+  | { type: 'buildOutpost'; target: HexCoord }
+  | { type: 'purify' }
+  | { type: 'equip'; item: EquipmentId; slot: number }
+  | { type: 'unequip'; slot: number }
+  | { type: 'craft'; recipe: RecipeId }
+  | { type: 'choosePerk'; perk: PerkId }
+  | { type: 'eatRation' }
+  | { type: 'deposit'; resources: Partial<InventoryState> }
+  | { type: 'withdraw'; resources: Partial<InventoryState> }
+  | { type: 'fastTravel'; to: HexCoord };
+
+/**
+ * Reasons an action can be refused by the engine
+ */
+export type RejectionReason =
+  | 'notAdjacent'
+  | 'impassable'
+  | 'exhausted'
+  | 'noWood'
+  | 'insufficientResources'
+  | 'invalidSite'
+  | 'noRelic'
+  | 'nothingToPurify'
+  | 'needsEquipment'
+  | 'notOwned'
+  | 'invalidSlot'
+  | 'unknownRecipe'
+  | 'wrongStation'
+  | 'alreadyOwned'
+  | 'alreadyChosen'
+  | 'noSupplies'
+  | 'fullEnergy'
+  | 'notAtOutpost'
+  | 'storageFull'
+  | 'notConnected';
+
+/**
+ * Facts emitted by the engine while applying an action
+ */
+export type GameEvent =
+  | { type: 'moved'; from: HexCoord; to: HexCoord; cost: number }
+  | {
+      type: 'rejected';
+      action: GameAction['type'];
+      reason: RejectionReason;
+      /** Gear that would have allowed the action */
+      requires?: EquipmentId;
+    }
+  | { type: 'gathered'; tileType: TileType; resources: Partial<InventoryState>; cache: boolean }
+  | { type: 'pulsed'; center: HexCoord; radius: number }
+  | { type: 'rested'; atOutpost: boolean; recovered: number }
+  | { type: 'outpostBuilt'; at: HexCoord; name: string }
+  | { type: 'beaconSecured'; at: HexCoord }
+  | { type: 'regenerated'; amount: number }
+  | { type: 'dayPhaseChanged'; phase: DayPhase; day: number }
+  | { type: 'drained'; amount: number }
+  | { type: 'purified'; center: HexCoord; count: number }
+  | { type: 'corruptionSpread'; tiles: HexCoord[] }
+  | { type: 'equipmentFound'; item: EquipmentId; equipped: boolean }
+  | { type: 'equipped'; item: EquipmentId; slot: number }
+  | { type: 'unequipped'; item: EquipmentId; slot: number }
+  | { type: 'crafted'; recipe: RecipeId }
+  | { type: 'perkChosen'; perk: PerkId }
+  | { type: 'rationEaten'; recovered: number }
+  | { type: 'rationsConsumed'; amount: number }
+  | { type: 'hungry'; drained: number }
+  | { type: 'deposited'; outpost: string; resources: Partial<InventoryState> }
+  | { type: 'withdrew'; outpost: string; resources: Partial<InventoryState> }
+  | { type: 'fastTraveled'; from: HexCoord; to: HexCoord; cost: number }
+  | { type: 'outpostsProduced'; amount: number };
+
+/**
+ * Result of applying a single action
+ */
+export interface ActionResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+/**
+ * How the main menu asks the game page to start
+ * Either a fresh world from a seed or a stored save slot
+ */
+export type ExpeditionOptions =
+  | { type: 'new'; seed: string; hardcore: boolean; config: GameConfig }
+  | { type: 'load'; saveId: string };
+
+/**
+ * One hex along a planned route
+ */
+export interface RouteStep {
+  coord: HexCoord;
+  /** Energy cost of entering the hex (estimated when unknown) */
+  cost: number;
+  /** Was the hex revealed when the route was planned? */
+  known: boolean;
+}
+
+/**
+ * Multi-hex route from the player's position to a destination
+ */
+export interface PlannedRoute {
+  destination: HexCoord;
+  steps: RouteStep[];
+  totalCost: number;
+  hasUnknown: boolean;
+}
@@ -0,0 +1,42 @@
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import { faSatelliteDish, faBatteryFull, faSun } from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Perk identifiers
+ */
+export type PerkId =
+  | 'widePulse'
+  | 'deepReserves'
+  | 'duneStrider';
+
+/**
+ * Perk display data
+ * What each perk does lives in the engine's pulse, energy and movement rules
+ */
+export interface PerkInfo {
+  id: PerkId;
+  label: string;
+  icon: IconDefinition;
+  description: string;
+}
+
+export const PERKS: Record<PerkId, PerkInfo> = {
+  widePulse: {
+    id: 'widePulse',
+    label: 'Wide Pulse',
+    icon: faSatelliteDish,
+    description: 'Pulse scans reveal two more rings of hexes'
+  },
+  deepReserves: {
+    id: 'deepReserves',
+    label: 'Deep Reserves',
+    icon: faBatteryFull,
+    description: 'Raises maximum energy by 4'
+  },
+  duneStrider: {
+    id: 'duneStrider',
+    label: 'Dune Strider',
+    icon: faSun,
+    description: 'Crossing desert costs 1 energy'
+  }
+};
@@ -0,0 +1,96 @@
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import { faLightbulb, faBoxOpen, faDrumstickBite, faGem, faMountain, faSailboat } from '@fortawesome/free-solid-svg-icons';
+import type { TileType } from './tiles';
+import type { EquipmentId } from './equipment';
+import type { InventoryState } from './game';
+
+/**
+ * Recipe identifiers
+ */
+export type RecipeId =
+  | 'lantern'
+  | 'climbingGear'
+  | 'boat'
+  | 'supplyPack'
+  | 'trailRations'
+  | 'relicRefining';
+
+/**
+ * Crafting recipe
+ * Recipes are plain data: adding an entry makes it craftable and lists it
+ * in the crafting panel. The engine checks and applies them generically.
+ */
+export interface Recipe {
+  id: RecipeId;
+  label: string;
+  icon: IconDefinition;
+  description: string;
+  /** Resources consumed by one craft */
+  inputs: Partial<InventoryState>;
+  /** What the craft produces; any combination of the three */
+  outputs: {
+    resources?: Partial<InventoryState>;
+    equipment?: EquipmentId;
+    energy?: number;
+  };
+  /** Terrain the player must stand on to craft, e.g. a settlement's workshop */
+  station?: TileType;
+}
+
+export const RECIPES: Record<RecipeId, Recipe> = {
+  lantern: {
+    id: 'lantern',
+    label: 'Lantern',
+    icon: faLightbulb,
+    description: 'Keeps your full sight range after dark',
+    inputs: { ore: 1, wood: 1 },
+    outputs: { equipment: 'lantern' },
+    station: 'settlement',
+  },
+  climbingGear: {
+    id: 'climbingGear',
+    label: 'Climbing Gear',
+    icon: faMountain,
+    description: 'Rope and pitons fashioned from camp stores',
+    inputs: { wood: 1, supplies: 3 },
+    outputs: { equipment: 'climbingGear' },
+    station: 'settlement',
+  },
+  boat: {
+    id: 'boat',
+    label: 'Boat',
+    icon: faSailboat,
+    description: 'A light hull lashed together from timber',
+    inputs: { wood: 4 },
+    outputs: { equipment: 'boat' },
+    station: 'settlement',
+  },
+  supplyPack: {
+    id: 'supplyPack',
+    label: 'Supply Pack',
+    icon: faBoxOpen,
+    description: 'Salvaged timber and flasks packed for the trail',
+    inputs: { wood: 2, water: 1 },
+    outputs: { resources: { supplies: 2 } },
+    station: 'settlement',
+  },
+  trailRations: {
+    id: 'trailRations',
+    label: 'Trail Rations',
+    icon: faDrumstickBite,
+    description: 'A proper meal, more filling than a plain ration',
+    inputs: { supplies: 1, water: 1 },
+    outputs: { energy: 5 },
+  },
+  relicRefining: {
+    id: 'relicRefining',
+    label: 'Refined Relic',
+    icon: faGem,
+    description: 'Ore smelted around a shard of the old world',
+    inputs: { ore: 3, water: 1 },
+    outputs: { resources: { relics: 1 } },
+    station: 'settlement',
+  },
+};
+
+export const RECIPE_LIST: Recipe[] = Object.values(RECIPES);
@@ -0,0 +1,97 @@
+import type { BiomeType, TileFeature, TileType } from './tiles';
+import type {
+  GameAction,
+  HexCoord,
+  InventoryState,
+  Outpost,
+  PlayerState,
+  RunStats,
+  ViewState,
+} from './game';
+import type { EquipmentState } from './equipment';
+import type { PerkId } from './perks';
+import type { DifficultyId, GameConfig } from './config';
+
+/**
+ * Compact tile encoding: [q, r, type, biome, elevation, flags, feature]
+ * Tuples avoid repeating property names for every tile in large maps
+ */
+export type SerializedTile = [
+  number,
+  number,
+  TileType,
+  BiomeType,
+  number,
+  number,
+  TileFeature | null,
+];
+
+/**
+ * Serialized GameState
+ */
+export interface SerializedGame {
+  seed: string;
+  beacon: HexCoord;
+  hasWon: boolean;
+  hardcore: boolean;
+  config: GameConfig;
+  turn: number;
+  player: PlayerState;
+  inventory: InventoryState;
+  equipment: EquipmentState;
+  perks: PerkId[];
+  outposts: Outpost[];
+  stats: RunStats;
+  tiles: SerializedTile[];
+}
+
+/**
+ * UI state restored alongside the game
+ */
+export interface SavedView {
+  viewState: ViewState;
+  selectedTile: string | null;
+  showVictory: boolean;
+}
+
+/**
+ * Seed plus every accepted action, enough to rebuild the run from scratch
+ * finalHash fingerprints the state the actions are expected to produce.
+ */
+export interface Recording {
+  seed: string;
+  hardcore: boolean;
+  config: GameConfig;
+  actions: GameAction[];
+  finalHash: string;
+}
+
+/**
+ * Versioned save file
+ */
+export interface SaveData {
+  version: number;
+  name: string;
+  savedAt: number;
+  /** Same for every save of one expedition, so the run is only ranked once */
+  runId: string;
+  game: SerializedGame;
+  view: SavedView;
+  /** Null for runs that started before recordings were kept */
+  recording: Recording | null;
+}
+
+/**
+ * Lightweight listing entry for a stored save
+ */
+export interface SaveSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+  seed: string;
+  /** Missing from slots indexed before difficulty presets, which were all normal */
+  difficulty?: DifficultyId;
+  explored: number;
+  hasWon: boolean;
+  replayable: boolean;
+}
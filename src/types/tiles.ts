@@ -65,12 +65,6 @@ export interface HexTile {
   
   /** Regional biome */
   biome: BiomeType;
-  
-  /** Movement cost modifier */
-  movementCost: number;
-  
-  /** Can player enter this tile? */
-  passable: boolean;
 
   /** Optional special feature on the tile */
   feature?: TileFeature;
@@ -189,3 +183,213 @@ export const TILE_STYLES: Record<TileType, TileStyle> = {
     description: 'Unexplored territory'
   }
 };
+
+/**
+ * A complete set of tile styles the renderers can draw with
+ */
+export type TilePalette = Record<TileType, TileStyle>;
+
+/**
+ * Texture laid over a terrain's fill so it can be told apart without colour
+ */
+export type TilePattern = 'hatch' | 'crossHatch' | 'lines' | 'dots' | 'grid';
+
+/** Pattern drawn on each terrain when pattern fills are on; unlisted terrain stays plain */
+export const TILE_PATTERNS: Partial<Record<TileType, TilePattern>> = {
+  forest: 'dots',
+  water: 'lines',
+  desert: 'hatch',
+  mountain: 'crossHatch',
+  ruins: 'grid',
+};
+
+/**
+ * Selectable colour schemes
+ */
+export type PaletteId = 'default' | 'deuteranopia' | 'protanopia' | 'tritanopia' | 'highContrast';
+
+export interface PaletteInfo {
+  id: PaletteId;
+  label: string;
+  description: string;
+  day: TilePalette;
+  night: TilePalette;
+}
+
+/** Fill, stroke and icon colour of each terrain */
+type PaletteColors = Record<TileType, [fill: string, stroke: string, icon: string]>;
+
+const NIGHT_SKY = '#020617';
+const MOONLIGHT = '#818cf8';
+
+function mixColor(color: string, target: string, amount: number): string {
+  const channel = (hex: string, index: number) => parseInt(hex.slice(1 + index * 2, 3 + index * 2), 16);
+  return '#' + [0, 1, 2]
+    .map(index => {
+      const value = channel(color, index) + (channel(target, index) - channel(color, index)) * amount;
+      return Math.round(value).toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+function mapPalette(palette: TilePalette, restyle: (style: TileStyle) => TileStyle): TilePalette {
+  return Object.fromEntries(
+    Object.values(palette).map(style => [style.id, restyle(style)])
+  ) as TilePalette;
+}
+
+/**
+ * Moonlit variant of a palette used after dark
+ * Fills sink toward midnight blue and glows cool toward indigo
+ */
+function moonlit(palette: TilePalette): TilePalette {
+  return mapPalette(palette, style => ({
+    ...style,
+    fillColor: mixColor(style.fillColor, NIGHT_SKY, 0.45),
+    strokeColor: mixColor(style.strokeColor, MOONLIGHT, 0.4),
+    iconColor: mixColor(style.iconColor, MOONLIGHT, 0.3),
+  }));
+}
+
+function recolor(colors: PaletteColors): TilePalette {
+  return mapPalette(TILE_STYLES, style => {
+    const [fillColor, strokeColor, iconColor] = colors[style.id];
+    return { ...style, fillColor, strokeColor, iconColor };
+  });
+}
+
+/**
+ * Red-green safe colours built on the Okabe-Ito set
+ * Plains and forest differ in lightness as well as hue.
+ */
+const DEUTERANOPIA_COLORS: PaletteColors = {
+  plains: ['#2b2a0c', '#f0e442', '#f6ef8f'],
+  forest: ['#06291f', '#009e73', '#3cc39b'],
+  mountain: ['#1f2328', '#9ca3af', '#d1d5db'],
+  water: ['#0b2438', '#56b4e9', '#a3d7f5'],
+  desert: ['#33230a', '#e69f00', '#f5c55a'],
+  ruins: ['#2e1a26', '#cc79a7', '#e3afcb'],
+  void: ['#0a0a0a', '#3f3f46', '#52525b'],
+  settlement: ['#331706', '#d55e00', '#f08a4b'],
+  beacon: ['#1a1a1a', '#ffffff', '#ffffff'],
+  fog: ['#111827', '#374151', '#6b7280'],
+};
+
+/** As deuteranopia, with reds lifted since they read darker without red cones */
+const PROTANOPIA_COLORS: PaletteColors = {
+  ...DEUTERANOPIA_COLORS,
+  ruins: ['#2e1a2e', '#e09ad0', '#f0c6e6'],
+  settlement: ['#331a06', '#ff8c42', '#ffb27f'],
+};
+
+/** Blue-yellow safe colours; terrain is split across pink, teal, orange and violet */
+const TRITANOPIA_COLORS: PaletteColors = {
+  plains: ['#2a1a22', '#f28fb0', '#f8c1d4'],
+  forest: ['#0a2a28', '#1fa39a', '#62d0c7'],
+  mountain: ['#1f2328', '#9ca3af', '#d1d5db'],
+  water: ['#0c1a40', '#648fff', '#a6c0ff'],
+  desert: ['#331308', '#fe6100', '#ff9a5c'],
+  ruins: ['#1e1538', '#785ef0', '#b3a3f7'],
+  void: ['#0a0a0a', '#3f3f46', '#52525b'],
+  settlement: ['#2e0a1c', '#dc267f', '#ec7fb4'],
+  beacon: ['#1a1a1a', '#ffffff', '#ffffff'],
+  fog: ['#111827', '#374151', '#6b7280'],
+};
+
+/** Saturated strokes on black fills */
+const HIGH_CONTRAST_COLORS: PaletteColors = {
+  plains: ['#000000', '#ffff00', '#ffff66'],
+  forest: ['#000000', '#00ff66', '#66ff99'],
+  mountain: ['#000000', '#ffffff', '#ffffff'],
+  water: ['#000000', '#00e5ff', '#80f2ff'],
+  desert: ['#000000', '#ff9900', '#ffc266'],
+  ruins: ['#000000', '#ff33ff', '#ff99ff'],
+  void: ['#000000', '#666666', '#888888'],
+  settlement: ['#000000', '#ff3333', '#ff8080'],
+  beacon: ['#333300', '#ffffff', '#ffff00'],
+  fog: ['#1a1a1a', '#808080', '#b3b3b3'],
+};
+
+const HIGH_CONTRAST = recolor(HIGH_CONTRAST_COLORS);
+
+export const TILE_PALETTES: Record<PaletteId, PaletteInfo> = {
+  default: {
+    id: 'default',
+    label: 'Bioluminescent',
+    description: 'The original glow',
+    day: TILE_STYLES,
+    night: moonlit(TILE_STYLES)
+  },
+  deuteranopia: {
+    id: 'deuteranopia',
+    label: 'Deuteranopia',
+    description: 'Green-weak colour vision',
+    day: recolor(DEUTERANOPIA_COLORS),
+    night: moonlit(recolor(DEUTERANOPIA_COLORS))
+  },
+  protanopia: {
+    id: 'protanopia',
+    label: 'Protanopia',
+    description: 'Red-weak colour vision',
+    day: recolor(PROTANOPIA_COLORS),
+    night: moonlit(recolor(PROTANOPIA_COLORS))
+  },
+  tritanopia: {
+    id: 'tritanopia',
+    label: 'Tritanopia',
+    description: 'Blue-weak colour vision',
+    day: recolor(TRITANOPIA_COLORS),
+    night: moonlit(recolor(TRITANOPIA_COLORS))
+  },
+  highContrast: {
+    id: 'highContrast',
+    label: 'High contrast',
+    description: 'Bright outlines on black, unchanged at night',
+    day: HIGH_CONTRAST,
+    night: HIGH_CONTRAST
+  }
+};
+
+/**
+ * Biome visual styling
+ * The tint is layered over the terrain fill so regions read as distinct areas
+ */
+export interface BiomeStyle {
+  id: BiomeType;
+  label: string;
+  tintColor: string;        // Overlay color
+  tintOpacity: number;      // Overlay strength (0 disables)
+}
+
+export const BIOME_STYLES: Record<BiomeType, BiomeStyle> = {
+  temperate: {
+    id: 'temperate',
+    label: 'Temperate',
+    tintColor: '#000000',
+    tintOpacity: 0
+  },
+  arctic: {
+    id: 'arctic',
+    label: 'Arctic',
+    tintColor: '#e0f2fe',      // Frost white
+    tintOpacity: 0.16
+  },
+  tropical: {
+    id: 'tropical',
+    label: 'Tropical',
+    tintColor: '#2dd4bf',      // Lagoon teal
+    tintOpacity: 0.14
+  },
+  volcanic: {
+    id: 'volcanic',
+    label: 'Volcanic',
+    tintColor: '#ef4444',      // Ember red
+    tintOpacity: 0.18
+  },
+  corrupted: {
+    id: 'corrupted',
+    label: 'Corrupted',
+    tintColor: '#c026d3',      // Void magenta
+    tintOpacity: 0.2
+  }
+};